@@ -1,13 +1,37 @@
 // src/GameEventHandler.ts
 import { Vector } from "./physics";
-import { GameState, MenuState, Turn } from './GameStates';
+import { GameState, MenuState, Turn, Controller, GameResult, GameSubState } from './GameStates';
 import { MenuSystem, MarbleType } from './menu';
 import GameStateManager from './GameStateManager';
-import { GameBall, GameObstacle } from './databus';
+import DataBus, { GameBall, GameObstacle } from './databus';
 import RetroMarbleGame from './game';
+import { computeShot } from './shot';
+import { Side, RoundOutcome, resolveRound, applyRoundOutcome, getGameResult } from './rules';
+import { measureSpan } from './span';
+import { getTimeoutPolicy, getWarningSeconds, createWeakShot, playClockWarning } from './shotClock';
+import { getGameMode } from './maps';
+import { createRaceShot, formatRanking, getRaceBetResult } from './race';
+import { SeatProfile, formatSeatRecord } from './hotseat';
+
+// 结算界面上各规则的说明
+const REASON_MESSAGES: { [reason: string]: string } = {
+  capture: '一扎捕获',
+  ring: '出圈',
+  pocket: '进洞得分',
+  race: '竞速',
+  out_of_bounds: '出界'
+};
 
 // 创建全局实例
 const gameStateManager = GameStateManager.getInstance();
+const databus = DataBus;
+
+// 竞速 AI 的击球力度（满力的比例）和最大方向偏差
+const RACE_AI_POWER = 0.8;
+const RACE_AI_SPREAD = Math.PI / 6;
+
+// 俯视桌面上弹珠的滑行距离约为初速度（像素/秒）的 1.6 倍，AI 据此估计力度
+const AI_GLIDE_RATIO = 1.6;
 
 /**
  * 游戏事件处理器
@@ -22,6 +46,17 @@ export default class GameEventHandler {
   private isDragging: boolean = false;
   private dragStart: Vector | null = null;
   private dragEnd: Vector | null = null;
+  private dragPath: Vector[] = [];
+  private secondFingerEnglish: number | null = null; // 第二根手指给出的加塞量
+  private lastShooter: Side = 'player'; // 最近一击的击球方，结算时判定一扎由谁完成
+  private lastShotBallId: string | null = null; // 最近一击弹出的弹珠（竞速 AI 同时弹多颗时为 null）
+  private shotTaken: boolean = false;   // 当前一方本回合已击球，计时停止直到换边
+  private handoverPending: boolean = false; // 双人同屏换人：点一下屏幕后才开始计时和击球
+
+  // 一扎测量阶段：玩家捕获前需亲手从己方弹珠拖到对方弹珠
+  private spanPhase: { outcome: RoundOutcome; shooter: GameBall; target: GameBall } | null = null;
+  private spanStart: Vector | null = null;
+  private spanEnd: Vector | null = null;
 
   // 回调函数
   public onGameStart?: () => void;
@@ -37,6 +72,7 @@ export default class GameEventHandler {
   public onSkillActivate?: (skillId: string) => void;
   public onSettingChange?: (id: string, value: any) => void;
   public onMarblePurchase?: (marbleId: string) => void;
+  public onDebugToggle?: () => void;
 
   constructor(canvas: WechatMinigame.Canvas, menu: MenuSystem, main: RetroMarbleGame) {
     this.canvas = canvas;
@@ -66,22 +102,79 @@ export default class GameEventHandler {
   private setupMenuCallbacks(): void {
     this.menu.onStart = () => {
       console.log('开始游戏');
-      gameStateManager.setGameState(GameState.PLAYING);
+      // 先进入地图预览和下注，由主类切换到对局
       gameStateManager.setMenuState(MenuState.NONE);
       if (this.onGameStart) this.onGameStart();
     };
+
+    // 双人同屏：先进入双方设置，确认后直接开局（不下注）
+    this.menu.onHotSeat = () => {
+      gameStateManager.setMenuState(MenuState.HOTSEAT);
+      this.main.setMenuState(MenuState.HOTSEAT);
+    };
+
+    this.menu.onHotSeatStart = (seats: SeatProfile[]) => {
+      console.log(`双人同屏: ${seats.map(seat => seat.name).join(' vs ')}`);
+      databus.startHotSeat(seats);
+      gameStateManager.setMenuState(MenuState.NONE);
+      if (this.onGameStart) this.onGameStart();
+    };
+
+    this.menu.onSettingChange = (id: string, value: any) => {
+      if (this.onSettingChange) this.onSettingChange(id, value);
+    };
+
+    // 结算界面的按钮
+    this.menu.onRestart = () => {
+      if (this.onRestartClick) this.onRestartClick();
+    };
+
+    this.menu.onBackToMenu = () => {
+      if (this.onExitClick) this.onExitClick();
+    };
   }
 
   /**
    * 处理触摸开始事件
    */
   private handleTouchStart(event: any): void {
+    // 隐藏手势：游戏中三指同时按下切换物理调试层
+    if (event.touches.length === 3 && this.isGameplayState(gameStateManager.getGameState())) {
+      this.cancelDrag();
+      if (this.onDebugToggle) this.onDebugToggle();
+      return;
+    }
+
+    // 拖拽中按下第二根手指用于加塞，不重新开始拖拽
+    if (this.isDragging && event.touches.length > 1) {
+      this.updateSecondFinger(event.touches[1]);
+      return;
+    }
+
     const touch = event.touches[0];
     const x = touch.clientX;
     const y = touch.clientY;
 
     console.log(`[触摸事件] 坐标: (${x}, ${y})`);
 
+    if (this.isBettingState()) {
+      this.main.handleBettingTouch('start', x, y);
+      return;
+    }
+
+    if (this.spanPhase) {
+      this.spanStart = { x, y };
+      this.spanEnd = { x, y };
+      return;
+    }
+
+    // 换人提示：接过手机的一方点一下开始本回合
+    if (this.handoverPending && gameStateManager.getGameState() === GameState.PLAYING) {
+      this.handoverPending = false;
+      gameStateManager.resetTurnTimer();
+      return;
+    }
+
     const gameState = gameStateManager.getGameState();
     const menuState = gameStateManager.getMenuState();
 
@@ -120,12 +213,27 @@ export default class GameEventHandler {
     // 检查技能按钮点击
     this.checkSkillButtonClick(x, y);
 
-    // 处理拖拽
-    if (this.canPlayerDrag(gameStateManager.getGameState(), gameStateManager.getTurn())) {
+    // 处理拖拽；多颗弹珠时按住哪一颗就弹哪一颗
+    if (this.canPlayerDrag(gameStateManager.getGameState())) {
+      this.selectTurnBallAt(x, y);
       this.startDrag(x, y);
     }
   }
 
+  /**
+   * 点选当前一方的弹珠作为本回合要弹的那颗（竞速的选择用于下注，不在这里改）
+   */
+  private selectTurnBallAt(x: number, y: number): void {
+    if (this.isRaceMode()) return;
+
+    const ball = gameStateManager.getTurnBalls().find(item => {
+      const dx = item.x - x;
+      const dy = item.y - y;
+      return dx * dx + dy * dy <= (item.radius + 10) * (item.radius + 10);
+    });
+    if (ball) gameStateManager.selectBall(ball.id);
+  }
+
   /**
    * 检查重新开始按钮点击
    */
@@ -156,12 +264,24 @@ export default class GameEventHandler {
    * 处理触摸移动事件
    */
   private handleTouchMove(event: any): void {
+    if (this.isBettingState()) {
+      this.main.handleBettingTouch('move', event.touches[0].clientX, event.touches[0].clientY);
+      return;
+    }
+    if (this.spanPhase && this.spanStart) {
+      this.spanEnd = { x: event.touches[0].clientX, y: event.touches[0].clientY };
+      return;
+    }
     if (!this.isDragging) return;
 
     const touch = event.touches[0];
     const x = touch.clientX;
     const y = touch.clientY;
 
+    if (event.touches.length > 1) {
+      this.updateSecondFinger(event.touches[1]);
+    }
+
     this.updateDrag(x, y);
   }
 
@@ -169,7 +289,19 @@ export default class GameEventHandler {
    * 处理触摸结束事件
    */
   private handleTouchEnd(event: any): void {
+    if (this.isBettingState()) {
+      const touch = event.changedTouches[0];
+      this.main.handleBettingTouch('end', touch.clientX, touch.clientY);
+      return;
+    }
+    if (this.spanPhase && this.spanStart) {
+      const touch = event.changedTouches[0];
+      this.finishSpan({ x: touch.clientX, y: touch.clientY });
+      return;
+    }
     if (!this.isDragging) return;
+    // 仍有手指按着（抬起的是加塞手指），继续拖拽
+    if (event.touches && event.touches.length > 0) return;
 
     const touch = event.changedTouches[0];
     const x = touch.clientX;
@@ -185,6 +317,8 @@ export default class GameEventHandler {
     this.isDragging = true;
     this.dragStart = { x, y };
     this.dragEnd = { x, y };
+    this.dragPath = [{ x, y }];
+    this.secondFingerEnglish = null;
   }
 
   /**
@@ -192,6 +326,42 @@ export default class GameEventHandler {
    */
   private updateDrag(x: number, y: number): void {
     this.dragEnd = { x, y };
+    this.dragPath.push({ x, y });
+  }
+
+  /**
+   * 第二根手指相对屏幕中线的位置决定加塞方向和大小
+   */
+  private updateSecondFinger(touch: any): void {
+    const half = databus.config.WIDTH / 2;
+    this.secondFingerEnglish = Math.max(-1, Math.min(1, (touch.clientX - half) / half));
+  }
+
+  /**
+   * 当前加塞量 [-1, 1]：第二根手指优先，否则取拖拽轨迹的弯曲程度
+   * 正值使弹珠向射击方向的右侧（顺时针）弯
+   */
+  public getEnglish(): number {
+    if (this.secondFingerEnglish !== null) return this.secondFingerEnglish;
+    if (!this.dragStart || !this.dragEnd || this.dragPath.length < 3) return 0;
+
+    const dx = this.dragStart.x - this.dragEnd.x;
+    const dy = this.dragStart.y - this.dragEnd.y;
+    const length = Math.sqrt(dx * dx + dy * dy);
+    if (length < 1) return 0;
+
+    // 轨迹偏离弦线最远的点，沿射击方向右侧法线取符号
+    const rx = -dy / length, ry = dx / length;
+    let deviation = 0;
+    this.dragPath.forEach(point => {
+      const d = (point.x - this.dragStart!.x) * rx + (point.y - this.dragStart!.y) * ry;
+      if (Math.abs(d) > Math.abs(deviation)) deviation = d;
+    });
+
+    // 偏离不足弦长 5% 视为直线拖拽
+    const ratio = deviation / length;
+    if (Math.abs(ratio) < 0.05) return 0;
+    return Math.max(-1, Math.min(1, ratio * 2));
   }
 
   /**
@@ -208,33 +378,47 @@ export default class GameEventHandler {
       const force = Math.sqrt(dx * dx + dy * dy);
 
       if (force > 10) { // 最小拖拽距离
-        this.executePlayerShot(dx, dy, force);
+        this.executePlayerShot(dx, dy, force, this.getEnglish());
       }
     }
 
+    this.cancelDrag();
+  }
+
+  /**
+   * 放弃当前拖拽，不击球
+   */
+  private cancelDrag(): void {
+    this.isDragging = false;
     this.dragStart = null;
     this.dragEnd = null;
+    this.dragPath = [];
+    this.secondFingerEnglish = null;
   }
 
   /**
-   * 执行玩家射击
+   * 执行玩家射击（双人同屏时为当前回合一方的玩家）
+   * @param english 加塞量 [-1, 1]，给弹珠附加侧旋使路径弯曲
    */
-  private executePlayerShot(dx: number, dy: number, force: number): void {
-    const player = gameStateManager.getPlayerBall();
+  private executePlayerShot(dx: number, dy: number, force: number, english: number = 0): void {
+    const player = gameStateManager.getTurnBall();
     if (!player) return;
 
-    // 计算速度
-    const maxSpeed = 15;
-    const speed = Math.min(force / 10, maxSpeed);
-    const vx = (dx / force) * speed;
-    const vy = (dy / force) * speed;
+    // 与轨迹预览使用同一击球模型
+    const shot = computeShot(dx, dy, force, english, databus.getShotLimits(player));
 
     // 应用速度到玩家弹珠
-    player.vx = vx;
-    player.vy = vy;
+    databus.recordShotOrigins(gameStateManager.getBalls());
+    this.lastShooter = this.getTurnSide();
+    this.lastShotBallId = player.id;
+    this.shotTaken = true;
+    player.vx = shot.vx;
+    player.vy = shot.vy;
+    player.angularVelocity = shot.spin;
+    this.main.setState(GameState.MOVING);
 
     // 切换回合
-    gameStateManager.switchTurn();
+    this.passTurn();
   }
 
   /**
@@ -262,7 +446,17 @@ export default class GameEventHandler {
     return state === MenuState.MAIN || 
            state === MenuState.STORE || 
            state === MenuState.SETTINGS || 
-           state === MenuState.HELP;
+           state === MenuState.HELP ||
+           state === MenuState.HOTSEAT ||
+           state === MenuState.GAME_OVER;
+  }
+
+  /**
+   * 检查是否处于赛前预览/下注
+   */
+  private isBettingState(): boolean {
+    const state = gameStateManager.getGameState();
+    return state === GameState.PREVIEW || state === GameState.BETTING;
   }
 
   /**
@@ -275,29 +469,36 @@ export default class GameEventHandler {
   }
 
   /**
-   * 检查玩家是否可以拖拽
+   * 检查玩家是否可以拖拽：当前一方由玩家操控且不在换人提示中
    */
-  private canPlayerDrag(gameState: GameState, turn: Turn): boolean {
-    return gameState === GameState.PLAYING && turn === Turn.PLAYER;
+  private canPlayerDrag(gameState: GameState): boolean {
+    return gameState === GameState.PLAYING && gameStateManager.isHumanTurn() && !this.handoverPending;
+  }
+
+  private getTurnSide(): Side {
+    return gameStateManager.getTurn() === Turn.PLAYER ? 'player' : 'enemy';
   }
 
   /**
    * 执行AI回合
    */
   public executeAITurn(): void {
-    const enemy = gameStateManager.getEnemyBall();
-    const player = gameStateManager.getPlayerBall();
-    
-    if (!enemy || !player) return;
+    if (this.isRaceMode()) {
+      this.executeRaceAITurn();
+      return;
+    }
+
+    const pair = this.pickAIPair();
+    if (!pair) return;
+    const { enemy, player } = pair;
 
     // 简单的AI逻辑
-    const difficulty = this.getAIDifficulty();
-    const accuracy = difficulty === 'easy' ? 0.3 : difficulty === 'medium' ? 0.6 : 0.9;
+    const accuracy = this.getAIAccuracy();
     
-    // 计算射击目标
+    // 计算射击目标：从 AI 弹珠指向玩家弹珠
     const target = this.predictPlayerPosition(player, enemy);
-    const dx = enemy.x - target.x;
-    const dy = enemy.y - target.y;
+    const dx = target.x - enemy.x;
+    const dy = target.y - enemy.y;
     const distance = Math.sqrt(dx * dx + dy * dy);
     
     // 应用准确度
@@ -307,27 +508,190 @@ export default class GameEventHandler {
     const adjustedDx = dx * cosAngle - dy * sinAngle;
     const adjustedDy = dx * sinAngle + dy * cosAngle;
     
-    // 计算速度
-    const power = Math.min(distance / 20, 12);
-    const vx = (adjustedDx / distance) * power;
-    const vy = (adjustedDy / distance) * power;
+    // 与玩家使用同一击球模型：力度按距离估计，让弹珠大致滚到目标处停下，留在一扎之内
+    const limits = databus.getShotLimits(enemy);
+    const drag = distance / AI_GLIDE_RATIO / limits.maxSpeed * limits.maxDrag;
+    const shot = computeShot(adjustedDx, adjustedDy, drag, 0, limits);
     
     // 应用速度到AI弹珠
-    enemy.vx = vx;
-    enemy.vy = vy;
+    databus.recordShotOrigins(gameStateManager.getBalls());
+    this.lastShooter = 'enemy';
+    this.lastShotBallId = enemy.id;
+    this.shotTaken = true;
+    enemy.vx = shot.vx;
+    enemy.vy = shot.vy;
+    enemy.angularVelocity = shot.spin;
+    this.main.setState(GameState.MOVING);
     
     // 切换回合
     setTimeout(() => {
-      gameStateManager.switchTurn();
+      this.passTurn();
     }, 1000);
   }
 
+  /**
+   * 多颗弹珠时 AI 挑离玩家弹珠最近的一对：用这颗 AI 弹珠去打那颗玩家弹珠
+   */
+  private pickAIPair(): { enemy: GameBall; player: GameBall } | null {
+    let pair: { enemy: GameBall; player: GameBall } | null = null;
+    let best = Infinity;
+
+    gameStateManager.getEnemyBalls().forEach(enemy => {
+      gameStateManager.getPlayerBalls().forEach(player => {
+        const dx = enemy.x - player.x;
+        const dy = enemy.y - player.y;
+        const distance = dx * dx + dy * dy;
+        if (distance < best) {
+          best = distance;
+          pair = { enemy, player };
+        }
+      });
+    });
+    return pair;
+  }
+
+  /**
+   * 竞速的 AI 回合：所有还没到终点的 AI 弹珠同时朝终点弹出
+   */
+  private executeRaceAITurn(): void {
+    const racers = gameStateManager.getBalls().filter(ball => ball.isEnemy && !ball.finished);
+    if (racers.length === 0) {
+      this.passTurn();
+      return;
+    }
+
+    const spread = (1 - this.getAIAccuracy()) * RACE_AI_SPREAD;
+    databus.recordShotOrigins(gameStateManager.getBalls());
+    racers.forEach(ball => {
+      const shot = createRaceShot(databus.config.MAX_SHOT_SPEED * RACE_AI_POWER, spread);
+      ball.vx = shot.x;
+      ball.vy = shot.y;
+    });
+    this.lastShooter = 'enemy';
+    this.lastShotBallId = null;
+    this.shotTaken = true;
+    this.main.setState(GameState.MOVING);
+
+    setTimeout(() => {
+      this.passTurn();
+    }, 1000);
+  }
+
+  /**
+   * 换边：重置击球计时
+   */
+  private passTurn(): void {
+    gameStateManager.switchTurn();
+    this.shotTaken = false;
+  }
+
+  /**
+   * 开始新的一局：设置先手并重置击球计时
+   */
+  public resetTurn(turn: Turn): void {
+    gameStateManager.setTurn(turn);
+    gameStateManager.resetTurnTimer();
+    this.shotTaken = false;
+    this.lastShotBallId = null;
+    this.cancelDrag();
+    this.spanPhase = null;
+    this.handoverPending = !!databus.hotSeat;
+  }
+
+  /**
+   * 双人同屏等待换人时，接手的一方的资料；否则为 null
+   */
+  public getHandoverSeat(): SeatProfile | null {
+    if (!this.handoverPending || !databus.hotSeat) return null;
+    return databus.hotSeat[gameStateManager.getTurn() === Turn.PLAYER ? 0 : 1];
+  }
+
+  /**
+   * 推进击球计时：等待击球时走表，AI 想好后出手，超时按设置处理
+   * @param dt 经过的时间（秒）
+   * @param waiting 场上物体已静止、正在等待击球
+   */
+  public updateShotClock(dt: number, waiting: boolean): void {
+    if (this.shotTaken || this.spanPhase || this.handoverPending || !waiting) return;
+    if (gameStateManager.getGameState() !== GameState.PLAYING) return;
+
+    const before = gameStateManager.getTurnTimer();
+    gameStateManager.decreaseTurnTimer(dt);
+    const after = gameStateManager.getTurnTimer();
+    const turn = gameStateManager.getTurn();
+
+    // 竞速中玩家的弹珠已到终点，直接让给对方
+    const player = gameStateManager.getTurnBall();
+    if (gameStateManager.isHumanTurn() && this.isRaceMode() && player && player.finished) {
+      this.passTurn();
+      return;
+    }
+
+    if (gameStateManager.getController(turn) === Controller.AI) {
+      if (databus.config.TURN_TIME - after >= databus.config.AI_THINK_TIME) {
+        this.executeAITurn();
+      }
+      return;
+    }
+
+    getWarningSeconds(before, after, databus.config.SHOT_CLOCK_WARNING).forEach(second => {
+      playClockWarning(second, !!this.menu.getSetting('sound'), !!this.menu.getSetting('vibration'));
+    });
+
+    if (after <= 0) {
+      this.handleShotTimeout();
+    }
+  }
+
+  /**
+   * 玩家击球超时
+   */
+  private handleShotTimeout(): void {
+    const policy = getTimeoutPolicy(this.menu.getSetting('timeout_policy'));
+    console.log(`击球超时，处理方式: ${policy}`);
+    this.cancelDrag();
+
+    const player = gameStateManager.getTurnBall();
+    if (policy === 'weak_shot' && player) {
+      const shot = createWeakShot(databus.config.TIMEOUT_SHOT_SPEED);
+      databus.recordShotOrigins(gameStateManager.getBalls());
+      this.lastShooter = this.getTurnSide();
+      this.lastShotBallId = player.id;
+      player.vx = shot.x;
+      player.vy = shot.y;
+      player.angularVelocity = 0;
+      this.main.setState(GameState.MOVING);
+      this.passTurn();
+      return;
+    }
+
+    if (policy === 'penalty' && !databus.hotSeat) {
+      // 双人同屏不扣手机主人的积分，按让过处理
+      databus.spendScore(Math.min(databus.score, databus.config.TIMEOUT_PENALTY));
+    }
+    this.passTurn();
+    this.beginHandover();
+  }
+
+  /**
+   * AI 的准确度，越高瞄得越准
+   */
+  private getAIAccuracy(): number {
+    const difficulty = this.getAIDifficulty();
+    return difficulty === 'easy' ? 0.3 : difficulty === 'medium' ? 0.6 : 0.9;
+  }
+
+  private isRaceMode(): boolean {
+    return getGameMode(databus.getCurrentMap()) === 'race';
+  }
+
   /**
    * 获取AI难度
    */
   private getAIDifficulty(): string {
-    // 可以根据玩家等级或其他因素调整难度
-    return 'medium';
+    // 与下注赔率使用同一难度设置
+    const difficulty = this.menu.getSetting('difficulty');
+    return difficulty === '简单' ? 'easy' : difficulty === '困难' ? 'hard' : 'medium';
   }
 
   /**
@@ -339,33 +703,176 @@ export default class GameEventHandler {
   }
 
   /**
-   * 结束回合
+   * 结束回合：按地图玩法判定结果，并处理积分和胜负
    */
   public settleRound(): void {
-    const player = gameStateManager.getPlayerBall();
-    const enemy = gameStateManager.getEnemyBall();
-    
-    if (!player || !enemy) return;
-
-    // 计算距离
-    const distance = Math.sqrt(
-      Math.pow(player.x - enemy.x, 2) + 
-      Math.pow(player.y - enemy.y, 2)
-    );
-
-    // 判断胜负
-    const handSpan = gameStateManager.getHandSpan();
-    if (distance <= handSpan) {
-      // 玩家胜利
-      console.log('玩家胜利！');
-      gameStateManager.setGameState(GameState.GAME_OVER);
-      if (this.onGameWin) this.onGameWin();
+    const balls = gameStateManager.getBalls();
+    if (!gameStateManager.getPlayerBall() || !gameStateManager.getEnemyBall()) return;
+
+    const outcome = resolveRound({
+      map: databus.getCurrentMap(),
+      balls,
+      obstacles: databus.obstacles,
+      handSpan: databus.handSpan,
+      pocketScores: databus.pocketScores,
+      holeTargetScore: databus.config.HOLE_TARGET_SCORE,
+      shooter: this.lastShooter,
+      shotBallId: this.lastShotBallId || undefined
+    });
+
+    // 开启一扎测量时，玩家的捕获要亲手量过才算数
+    const shooterTurn = this.lastShooter === 'player' ? Turn.PLAYER : Turn.AI;
+    if (outcome.reason === 'capture' && gameStateManager.getController(shooterTurn) === Controller.HUMAN &&
+      this.menu.getSetting('span_minigame')) {
+      const shooter = balls.find(ball => ball.id === this.lastShotBallId) ||
+        (this.lastShooter === 'player' ? gameStateManager.getPlayerBall()! : gameStateManager.getEnemyBall()!);
+      const target = balls.find(ball => ball.id === outcome.removed[0])!;
+      this.spanPhase = { outcome, shooter, target };
+      this.spanStart = null;
+      this.spanEnd = null;
+      console.log('进入一扎测量');
+      return;
+    }
+
+    this.completeRound(outcome);
+  }
+
+  /**
+   * 执行回合结果：移除被捕获的弹珠、放回出界或进洞的弹珠、结算积分，然后继续对局或结束
+   */
+  private completeRound(outcome: RoundOutcome): void {
+    applyRoundOutcome(outcome, gameStateManager.getBalls(), databus.pocketScores,
+      { x: databus.config.WIDTH / 2, y: databus.config.HEIGHT / 2 });
+
+    // 玩家进洞得分计入积分，出界罚分从积分中扣除
+    if (outcome.pocketPoints.player > 0) databus.addScore(outcome.pocketPoints.player);
+    if (outcome.penaltyScore > 0) databus.spendScore(Math.min(databus.score, outcome.penaltyScore));
+    if (outcome.removed.length > 0) console.log(`移出本局: ${outcome.removed.join(', ')}`);
+
+    if (outcome.result === 'continue') {
+      this.continueMatch();
+      return;
+    }
+
+    console.log(`回合结算: ${outcome.result}（${outcome.reason}），击球方: ${this.lastShooter}`);
+    this.finishMatch(outcome);
+  }
+
+  /**
+   * 对局继续，回到等待击球
+   */
+  private continueMatch(): void {
+    gameStateManager.setGameState(GameState.PLAYING);
+    this.main.setState(GameState.PLAYING);
+    this.beginHandover();
+  }
+
+  /**
+   * 双人同屏每次换边都先把手机交给对方；竞速中已到终点的一方直接让过
+   */
+  private beginHandover(): void {
+    if (!databus.hotSeat) return;
+    const next = gameStateManager.getTurnBall();
+    if (this.isRaceMode() && next && next.finished) this.passTurn();
+    this.handoverPending = true;
+  }
+
+  /**
+   * 一扎测量结束：量到则按原结果捕获（可能结束对局），否则不算捕获、对局继续
+   */
+  private finishSpan(end: Vector): void {
+    const phase = this.spanPhase!;
+    const measurement = measureSpan(this.spanStart!, end, phase.shooter, phase.target, databus.handSpan);
+    console.log(`一扎测量: ${measurement.span.toFixed(0)}/${databus.handSpan}，` +
+      `${measurement.reached ? '' : '未按住两颗弹珠，'}${measurement.success ? '成功' : '失败'}`);
+
+    this.spanPhase = null;
+    this.spanStart = null;
+    this.spanEnd = null;
+
+    if (measurement.success) {
+      this.completeRound(phase.outcome);
     } else {
-      // 继续游戏
-      gameStateManager.setGameState(GameState.PLAYING);
+      this.continueMatch();
     }
   }
 
+  /**
+   * 获取一扎测量状态，未处于测量阶段时为 null
+   */
+  public getSpanState(): {
+    shooter: GameBall;
+    target: GameBall;
+    start: Vector | null;
+    end: Vector | null;
+  } | null {
+    if (!this.spanPhase) return null;
+    return {
+      shooter: this.spanPhase.shooter,
+      target: this.spanPhase.target,
+      start: this.spanStart,
+      end: this.spanEnd
+    };
+  }
+
+  /**
+   * 对局结束：记录战绩，发放积分和经验，进入结算界面
+   */
+  private finishMatch(outcome: RoundOutcome): void {
+    const result = getGameResult(outcome.result);
+    if (!result) return;
+
+    if (databus.hotSeat) {
+      this.finishHotSeatMatch(outcome, result, databus.hotSeat);
+      return;
+    }
+
+    const reward = databus.config.MATCH_REWARDS[result];
+    if (reward.score > 0) databus.addScore(reward.score);
+    databus.addExp(reward.exp);
+    databus.recordGameResult(result);
+
+    // 下注结算：返还多于本金为赢，少于本金为输；竞速按押的弹珠是否第一结算
+    const ranking = outcome.reason === 'race' ? databus.getRanking() : [];
+    const betResult = outcome.reason === 'race' ? getRaceBetResult(ranking, databus.selectedBall) : result;
+    const stake = databus.betAmount;
+    const payout = databus.settleBet(betResult);
+    const betText = stake > 0 ? `  下注 ${payout - stake >= 0 ? '+' : ''}${payout - stake}` : '';
+    databus.gameState = GameSubState.FINISHED;
+
+    const message = `${REASON_MESSAGES[outcome.reason] || ''}  积分 +${reward.score}  经验 +${reward.exp}${betText}`;
+    gameStateManager.setGameState(GameState.GAME_OVER);
+    gameStateManager.setMenuState(MenuState.GAME_OVER);
+    this.menu.showGameOver(result, message, formatRanking(ranking, databus.balls));
+    this.main.setMenuState(MenuState.GAME_OVER);
+    this.main.setState(GameState.GAME_OVER);
+
+    if (result === GameResult.WIN && this.onGameWin) this.onGameWin();
+    if (result === GameResult.LOSE && this.onGameLose) this.onGameLose();
+  }
+
+  /**
+   * 双人同屏结束：只记双方的战绩，不发积分和经验，也不计入单人战绩
+   * @param result 第一位玩家的结果
+   */
+  private finishHotSeatMatch(outcome: RoundOutcome, result: GameResult, seats: SeatProfile[]): void {
+    databus.recordHotSeatResult(result);
+    databus.gameState = GameSubState.FINISHED;
+
+    const winner = result === GameResult.WIN ? seats[0] : result === GameResult.LOSE ? seats[1] : null;
+    const ranking = outcome.reason === 'race'
+      ? formatRanking(databus.getRanking(), databus.balls, ball => seats[ball.isPlayer ? 0 : 1].name)
+      : [];
+    const records = seats.map(seat => `${seat.name}  ${formatSeatRecord(databus.hotSeatRecords[seat.name])}`);
+
+    gameStateManager.setGameState(GameState.GAME_OVER);
+    gameStateManager.setMenuState(MenuState.GAME_OVER);
+    this.menu.showGameOver(result, REASON_MESSAGES[outcome.reason] || '', [...ranking, ...records],
+      winner ? `${winner.name} 获胜！` : '平局');
+    this.main.setMenuState(MenuState.GAME_OVER);
+    this.main.setState(GameState.GAME_OVER);
+  }
+
   /**
    * 检查技能按钮点击
    */
@@ -381,11 +888,13 @@ export default class GameEventHandler {
     isDragging: boolean;
     dragStart: Vector | null;
     dragEnd: Vector | null;
+    english: number;
   } {
     return {
       isDragging: this.isDragging,
       dragStart: this.dragStart,
-      dragEnd: this.dragEnd
+      dragEnd: this.dragEnd,
+      english: this.getEnglish()
     };
   }
 
@@ -1,6 +1,6 @@
 // src/GameStateManager.ts
-import { GameState, MenuState, Turn, GameSubState, GameResult } from './GameStates';
-import { GameBall, GameObstacle } from './databus';
+import { GameState, MenuState, Turn, Controller, GameSubState, GameResult } from './GameStates';
+import DataBus, { GameBall, GameObstacle } from './databus';
 
 // 导出类型供其他模块使用
 export { GameBall, GameObstacle };
@@ -16,8 +16,9 @@ export class GameStateManager {
   private currentGameState: GameState = GameState.MENU;
   private currentMenuState: MenuState = MenuState.MAIN;
   private currentTurn: Turn = Turn.PLAYER;
+  private controllers: Record<Turn, Controller> = { [Turn.PLAYER]: Controller.HUMAN, [Turn.AI]: Controller.AI };
   private currentSubState: GameSubState = GameSubState.IDLE;
-  private turnTimer: number = 6000; // 6秒回合计时器
+  private turnTimer: number = DataBus.config.TURN_TIME; // 击球计时（秒）
 
   // 游戏对象引用
   private balls: GameBall[] = [];
@@ -89,6 +90,20 @@ export class GameStateManager {
     this.resetTurnTimer();
   }
 
+  /**
+   * 一方由谁操控，默认为当前回合的一方
+   */
+  public getController(turn: Turn = this.currentTurn): Controller {
+    return this.controllers[turn];
+  }
+
+  /**
+   * 设置双方的操控者：人机对战为玩家 / AI，双人同屏双方都是玩家
+   */
+  public setControllers(player: Controller, opponent: Controller): void {
+    this.controllers = { [Turn.PLAYER]: player, [Turn.AI]: opponent };
+  }
+
   public getSubState(): GameSubState {
     return this.currentSubState;
   }
@@ -107,9 +122,12 @@ export class GameStateManager {
   }
 
   public resetTurnTimer(): void {
-    this.turnTimer = 6000; // 重置为6秒
+    this.turnTimer = DataBus.config.TURN_TIME;
   }
 
+  /**
+   * @param deltaTime 经过的时间（秒）
+   */
   public decreaseTurnTimer(deltaTime: number): void {
     this.turnTimer = Math.max(0, this.turnTimer - deltaTime);
   }
@@ -132,14 +150,43 @@ export class GameStateManager {
     this.balls = this.balls.filter(ball => ball.id !== ballId);
   }
 
+  /**
+   * 玩家本回合要弹的弹珠：点选过且仍在场上的那颗，否则为第一颗
+   */
   public getPlayerBall(): GameBall | undefined {
+    const selected = this.selectedBall;
+    if (selected && selected.isPlayer && this.balls.indexOf(selected) >= 0) return selected;
     return this.balls.find(ball => ball.isPlayer);
   }
 
   public getEnemyBall(): GameBall | undefined {
+    const selected = this.selectedBall;
+    if (selected && selected.isEnemy && this.balls.indexOf(selected) >= 0) return selected;
     return this.balls.find(ball => ball.isEnemy);
   }
 
+  /**
+   * 当前回合一方要弹的弹珠
+   */
+  public getTurnBall(): GameBall | undefined {
+    return this.currentTurn === Turn.PLAYER ? this.getPlayerBall() : this.getEnemyBall();
+  }
+
+  /**
+   * 当前回合一方的全部弹珠
+   */
+  public getTurnBalls(): GameBall[] {
+    return this.currentTurn === Turn.PLAYER ? this.getPlayerBalls() : this.getEnemyBalls();
+  }
+
+  public getPlayerBalls(): GameBall[] {
+    return this.balls.filter(ball => ball.isPlayer);
+  }
+
+  public getEnemyBalls(): GameBall[] {
+    return this.balls.filter(ball => ball.isEnemy);
+  }
+
   public getSelectedBall(): GameBall | null {
     return this.selectedBall;
   }
@@ -265,7 +312,7 @@ export class GameStateManager {
       [GameState.SETTLING]: [GameState.AIMING, GameState.PLAYING, GameState.GAME_OVER],
       [GameState.GAME_OVER]: [GameState.MENU, GameState.PLAYING],
       [GameState.PAUSED]: [GameState.PLAYING, GameState.MENU],
-      [GameState.PREVIEW]: [GameState.BETTING, GameState.MENU],
+      [GameState.PREVIEW]: [GameState.BETTING, GameState.PLAYING, GameState.MENU],
       [GameState.BETTING]: [GameState.PLAYING, GameState.MENU],
       [GameState.FINISHED]: [GameState.MENU, GameState.PLAYING]
     };
@@ -276,11 +323,12 @@ export class GameStateManager {
   private isValidMenuStateTransition(from: MenuState, to: MenuState): boolean {
     // 简化的菜单状态转换验证
     const validTransitions: Record<MenuState, MenuState[]> = {
-      [MenuState.MAIN]: [MenuState.HELP, MenuState.SETTINGS, MenuState.STORE, MenuState.NONE],
+      [MenuState.MAIN]: [MenuState.HELP, MenuState.SETTINGS, MenuState.STORE, MenuState.HOTSEAT, MenuState.NONE],
       [MenuState.HELP]: [MenuState.MAIN],
-      [MenuState.GAME_OVER]: [MenuState.MAIN, MenuState.STORE],
+      [MenuState.GAME_OVER]: [MenuState.MAIN, MenuState.STORE, MenuState.NONE],
       [MenuState.SETTINGS]: [MenuState.MAIN],
       [MenuState.STORE]: [MenuState.MAIN],
+      [MenuState.HOTSEAT]: [MenuState.MAIN, MenuState.NONE],
       [MenuState.NONE]: [MenuState.MAIN, MenuState.HELP, MenuState.GAME_OVER, MenuState.SETTINGS, MenuState.STORE]
     };
 
@@ -304,6 +352,10 @@ export class GameStateManager {
     return this.currentTurn === Turn.AI;
   }
 
+  public isHumanTurn(): boolean {
+    return this.controllers[this.currentTurn] === Controller.HUMAN;
+  }
+
   public canPlayerAct(): boolean {
     return this.isGameActive() && this.isPlayerTurn();
   }
@@ -318,8 +370,9 @@ export class GameStateManager {
     this.currentGameState = GameState.MENU;
     this.currentMenuState = MenuState.MAIN;
     this.currentTurn = Turn.PLAYER;
+    this.controllers = { [Turn.PLAYER]: Controller.HUMAN, [Turn.AI]: Controller.AI };
     this.currentSubState = GameSubState.IDLE;
-    this.turnTimer = 6000;
+    this.turnTimer = DataBus.config.TURN_TIME;
     this.selectedBall = null;
     this.clearGameObjects();
   }
@@ -25,13 +25,20 @@ export enum MenuState {
   GAME_OVER = 'GAME_OVER', // 游戏结束菜单
   SETTINGS = 'SETTINGS',   // 设置页面
   STORE = 'STORE',         // 商店页面
+  HOTSEAT = 'HOTSEAT',     // 双人同屏设置
   NONE = 'NONE'            // 无菜单状态
 }
 
 // 回合状态
 export enum Turn {
   PLAYER = 'PLAYER',       // 玩家回合
-  AI = 'AI'                // AI回合
+  AI = 'AI'                // 对手回合（由 AI 或第二位玩家操控，见 Controller）
+}
+
+// 一方由谁操控
+export enum Controller {
+  HUMAN = 'HUMAN',         // 玩家拖拽击球
+  AI = 'AI'                // AI 自动出手
 }
 
 // 游戏子状态（用于DataBus）
@@ -85,18 +92,19 @@ export const GameStateTransitions: Record<GameState, GameState[]> = {
   [GameState.SETTLING]: [GameState.AIMING, GameState.PLAYING, GameState.GAME_OVER],
   [GameState.GAME_OVER]: [GameState.MENU, GameState.PLAYING],
   [GameState.PAUSED]: [GameState.PLAYING, GameState.MENU],
-  [GameState.PREVIEW]: [GameState.BETTING, GameState.MENU],
+  [GameState.PREVIEW]: [GameState.BETTING, GameState.PLAYING, GameState.MENU],
   [GameState.BETTING]: [GameState.PLAYING, GameState.MENU],
   [GameState.FINISHED]: [GameState.MENU, GameState.PLAYING]
 };
 
 // 菜单状态转换映射
 export const MenuStateTransitions: Record<MenuState, MenuState[]> = {
-  [MenuState.MAIN]: [MenuState.HELP, MenuState.SETTINGS, MenuState.STORE, MenuState.NONE],
+  [MenuState.MAIN]: [MenuState.HELP, MenuState.SETTINGS, MenuState.STORE, MenuState.HOTSEAT, MenuState.NONE],
   [MenuState.HELP]: [MenuState.MAIN],
-  [MenuState.GAME_OVER]: [MenuState.MAIN, MenuState.STORE],
+  [MenuState.GAME_OVER]: [MenuState.MAIN, MenuState.STORE, MenuState.NONE],
   [MenuState.SETTINGS]: [MenuState.MAIN],
   [MenuState.STORE]: [MenuState.MAIN],
+  [MenuState.HOTSEAT]: [MenuState.MAIN, MenuState.NONE],
   [MenuState.NONE]: [MenuState.MAIN, MenuState.HELP, MenuState.GAME_OVER, MenuState.SETTINGS, MenuState.STORE]
 };
 
@@ -118,7 +126,7 @@ export function isGameState(value: string): value is GameState {
 }
 
 export function isMenuState(value: string): value is MenuState {
-  const menuStates = [MenuState.MAIN, MenuState.HELP, MenuState.GAME_OVER, MenuState.SETTINGS, MenuState.STORE, MenuState.NONE];
+  const menuStates = [MenuState.MAIN, MenuState.HELP, MenuState.GAME_OVER, MenuState.SETTINGS, MenuState.STORE, MenuState.HOTSEAT, MenuState.NONE];
   return menuStates.indexOf(value as MenuState) !== -1;
 }
 
@@ -152,6 +160,7 @@ export const MenuStateNames: Record<MenuState, string> = {
   [MenuState.GAME_OVER]: '游戏结束',
   [MenuState.SETTINGS]: '设置',
   [MenuState.STORE]: '商店',
+  [MenuState.HOTSEAT]: '双人同屏',
   [MenuState.NONE]: '无菜单'
 };
 
@@ -165,6 +174,7 @@ export default {
   GameState,
   MenuState,
   Turn,
+  Controller,
   GameSubState,
   GameResult,
   SkillState,
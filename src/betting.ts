@@ -0,0 +1,214 @@
+// src/betting.ts
+/**
+ * 赛前下注
+ * 开局前先预览地图，再用滑条选择下注积分；赔率由 AI 难度和双方弹珠的技能配置决定，
+ * 对局结束时按结果返还，每一笔都记入本地存储的下注账本；竞速玩法押的是哪颗弹珠跑第一
+ */
+
+import { GameResult } from './GameStates';
+import { GameBall } from './databus';
+
+export interface BetLedgerEntry {
+  time: number;       // 结算时间戳
+  mapId: string;
+  stake: number;      // 下注积分
+  odds: number;
+  result: GameResult;
+  payout: number;     // 返还的积分（含本金），输掉为 0
+}
+
+// 各难度的基础赔率
+const BASE_ODDS: { [difficulty: string]: number } = {
+  '简单': 1.3,
+  '中等': 1.8,
+  '困难': 2.6
+};
+
+const LOADOUT_ODDS_STEP = 0.15; // 玩家每多一次穿障/额外反弹，赔率降低的幅度
+const MIN_ODDS = 1.1;
+
+/**
+ * 下注赔率
+ * @param difficulty 设置中的难度名称（简单 / 中等 / 困难）
+ */
+export function getBetOdds(difficulty: string, player: GameBall, enemy: GameBall): number {
+  const base = BASE_ODDS[difficulty] || BASE_ODDS['中等'];
+  const advantage = getSkillCharges(player) - getSkillCharges(enemy);
+  const odds = Math.max(MIN_ODDS, base - advantage * LOADOUT_ODDS_STEP);
+  return Math.round(odds * 100) / 100;
+}
+
+/**
+ * 竞速下注赔率：押哪一颗弹珠都相同，参赛弹珠越多、AI 越强赔率越高
+ */
+export function getRaceOdds(difficulty: string, racers: number): number {
+  const base = BASE_ODDS[difficulty] || BASE_ODDS['中等'];
+  const odds = Math.max(MIN_ODDS, base * racers / 2);
+  return Math.round(odds * 100) / 100;
+}
+
+/**
+ * 结算返还的积分：赢按赔率（向下取整），平局退回本金，输和放弃不返还
+ */
+export function getBetPayout(stake: number, odds: number, result: GameResult): number {
+  if (result === GameResult.WIN) return Math.floor(stake * odds);
+  if (result === GameResult.DRAW) return stake;
+  return 0;
+}
+
+function getSkillCharges(ball: GameBall): number {
+  return (ball.passThroughObstacleCount || 0) + (ball.bonusBounceCount || 0);
+}
+
+type PanelButton = 'bet' | 'start' | 'confirm' | 'skip';
+
+interface PanelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * 预览/下注面板：预览阶段选择下注或直接开局，下注阶段拖动滑条选择积分
+ */
+export class BettingPanel {
+  private phase: 'preview' | 'betting' = 'preview';
+  private mapName: string = '';
+  private hint: string = '';
+  private odds: number = 1;
+  private stake: number = 0;
+  private maxStake: number = 0;
+  private draggingSlider: boolean = false;
+
+  // 渲染时记录的位置，用于点击检测
+  private buttonRects: { id: PanelButton; rect: PanelRect }[] = [];
+  private sliderRect: PanelRect | null = null;
+
+  public onBet?: () => void;
+  public onConfirm?: (stake: number, odds: number) => void;
+  public onSkip?: () => void;
+
+  /**
+   * 进入预览阶段
+   * @param maxStake 可下注的最多积分（当前积分）
+   * @param hint 下注阶段的附加提示
+   */
+  public open(mapName: string, odds: number, maxStake: number, hint: string = ''): void {
+    this.phase = 'preview';
+    this.mapName = mapName;
+    this.hint = hint;
+    this.odds = odds;
+    this.maxStake = Math.max(0, Math.floor(maxStake));
+    this.stake = Math.min(10, this.maxStake);
+    this.draggingSlider = false;
+  }
+
+  public showBetting(): void {
+    this.phase = 'betting';
+  }
+
+  public setHint(hint: string): void {
+    this.hint = hint;
+  }
+
+  public render(ctx: CanvasRenderingContext2D, width: number, height: number): void {
+    const panel = { x: 20, y: height - 250, width: width - 40, height: 210 };
+    const centerX = width / 2;
+    this.buttonRects = [];
+    this.sliderRect = null;
+
+    ctx.save();
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    ctx.fillRect(panel.x, panel.y, panel.width, panel.height);
+    ctx.strokeStyle = '#f1c40f';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(panel.x, panel.y, panel.width, panel.height);
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = '#ecf0f1';
+    ctx.font = 'bold 18px Arial';
+    ctx.fillText(`地图预览：${this.mapName}`, centerX, panel.y + 28);
+    ctx.font = '15px Arial';
+    ctx.fillText(`赔率 x${this.odds.toFixed(2)}    可用积分 ${this.maxStake}`, centerX, panel.y + 58);
+
+    const buttonY = panel.y + panel.height - 60;
+    const buttonWidth = (panel.width - 60) / 2;
+    if (this.phase === 'preview') {
+      this.renderButton(ctx, 'bet', '下注', panel.x + 20, buttonY, buttonWidth, this.maxStake > 0);
+      this.renderButton(ctx, 'start', '直接开始', panel.x + 40 + buttonWidth, buttonY, buttonWidth, true);
+    } else {
+      if (this.hint) {
+        ctx.font = '13px Arial';
+        ctx.fillStyle = '#f1c40f';
+        ctx.fillText(this.hint, centerX, panel.y + 80);
+      }
+      this.renderSlider(ctx, panel.x + 30, panel.y + 100, panel.width - 60);
+      ctx.fillStyle = '#ecf0f1';
+      ctx.font = '15px Arial';
+      ctx.fillText(`下注 ${this.stake}    赢得 ${getBetPayout(this.stake, this.odds, GameResult.WIN)}`, centerX, panel.y + 130);
+      this.renderButton(ctx, 'confirm', '确认下注', panel.x + 20, buttonY, buttonWidth, this.stake > 0);
+      this.renderButton(ctx, 'skip', '不下注', panel.x + 40 + buttonWidth, buttonY, buttonWidth, true);
+    }
+    ctx.restore();
+  }
+
+  /**
+   * 处理触摸，返回是否被面板处理
+   */
+  public handleTouch(type: 'start' | 'move' | 'end', x: number, y: number): boolean {
+    if (type === 'start' && this.phase === 'betting' && this.sliderRect && this.isInside(x, y, this.sliderRect, 12)) {
+      this.draggingSlider = true;
+    }
+    if (this.draggingSlider) {
+      if (type === 'end') this.draggingSlider = false;
+      this.setStakeFromSlider(x);
+      return true;
+    }
+    if (type !== 'start') return false;
+
+    const button = this.buttonRects.find(item => this.isInside(x, y, item.rect, 0));
+    if (!button) return false;
+
+    if (button.id === 'bet' && this.maxStake > 0 && this.onBet) this.onBet();
+    if (button.id === 'start' && this.onSkip) this.onSkip();
+    if (button.id === 'confirm' && this.stake > 0 && this.onConfirm) this.onConfirm(this.stake, this.odds);
+    if (button.id === 'skip' && this.onSkip) this.onSkip();
+    return true;
+  }
+
+  private renderSlider(ctx: CanvasRenderingContext2D, x: number, y: number, width: number): void {
+    const ratio = this.maxStake > 0 ? this.stake / this.maxStake : 0;
+    this.sliderRect = { x, y: y - 4, width, height: 8 };
+
+    ctx.fillStyle = '#7f8c8d';
+    ctx.fillRect(x, y - 3, width, 6);
+    ctx.fillStyle = '#f1c40f';
+    ctx.fillRect(x, y - 3, width * ratio, 6);
+    ctx.beginPath();
+    ctx.arc(x + width * ratio, y, 12, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  private renderButton(ctx: CanvasRenderingContext2D, id: PanelButton, text: string, x: number, y: number, width: number, enabled: boolean): void {
+    const rect = { x, y, width, height: 44 };
+    ctx.fillStyle = enabled ? '#27ae60' : '#7f8c8d';
+    ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+    ctx.fillStyle = '#ecf0f1';
+    ctx.font = '16px Arial';
+    ctx.fillText(text, rect.x + rect.width / 2, rect.y + rect.height / 2);
+    this.buttonRects.push({ id, rect });
+  }
+
+  private setStakeFromSlider(x: number): void {
+    if (!this.sliderRect) return;
+    const ratio = Math.max(0, Math.min(1, (x - this.sliderRect.x) / this.sliderRect.width));
+    this.stake = Math.round(ratio * this.maxStake);
+  }
+
+  private isInside(x: number, y: number, rect: PanelRect, padding: number): boolean {
+    return x >= rect.x - padding && x <= rect.x + rect.width + padding &&
+      y >= rect.y - padding && y <= rect.y + rect.height + padding;
+  }
+}
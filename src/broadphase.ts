@@ -0,0 +1,115 @@
+// src/broadphase.ts
+/**
+ * 宽相位碰撞筛选 - 均匀网格
+ * 每个固定步重建一次，只把共享网格单元的物体交给窄相位检测
+ */
+
+export interface AABB {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export class SpatialGrid<T> {
+  private cellSize: number;
+  private cells: Map<string, number[]> = new Map();
+  private items: T[] = [];
+  private boxes: AABB[] = [];
+
+  constructor(cellSize: number) {
+    this.cellSize = cellSize;
+  }
+
+  /**
+   * 清空网格
+   */
+  public clear(): void {
+    this.cells.clear();
+    this.items = [];
+    this.boxes = [];
+  }
+
+  /**
+   * 插入物体及其包围盒
+   */
+  public insert(item: T, box: AABB): void {
+    const index = this.items.length;
+    this.items.push(item);
+    this.boxes.push(box);
+
+    this.forEachCell(box, key => {
+      const cell = this.cells.get(key);
+      if (cell) {
+        cell.push(index);
+      } else {
+        this.cells.set(key, [index]);
+      }
+    });
+  }
+
+  /**
+   * 查询与包围盒相交的物体（去重，按插入顺序返回）
+   */
+  public query(box: AABB): T[] {
+    const found: { [index: number]: boolean } = {};
+    const indices: number[] = [];
+
+    this.forEachCell(box, key => {
+      const cell = this.cells.get(key);
+      if (!cell) return;
+      cell.forEach(index => {
+        if (!found[index] && overlaps(box, this.boxes[index])) {
+          found[index] = true;
+          indices.push(index);
+        }
+      });
+    });
+
+    return indices.sort((a, b) => a - b).map(index => this.items[index]);
+  }
+
+  /**
+   * 枚举包围盒相交的物体对（去重，按插入顺序排序以保证确定性）
+   */
+  public getPairs(): [T, T][] {
+    const seen: { [key: number]: boolean } = {};
+    const pairs: [number, number][] = [];
+    const count = this.items.length;
+
+    this.cells.forEach(cell => {
+      for (let i = 0; i < cell.length; i++) {
+        for (let j = i + 1; j < cell.length; j++) {
+          const a = Math.min(cell[i], cell[j]);
+          const b = Math.max(cell[i], cell[j]);
+          const key = a * count + b;
+          if (seen[key]) continue;
+          seen[key] = true;
+          if (overlaps(this.boxes[a], this.boxes[b])) {
+            pairs.push([a, b]);
+          }
+        }
+      }
+    });
+
+    pairs.sort((p, q) => p[0] - q[0] || p[1] - q[1]);
+    return pairs.map(pair => [this.items[pair[0]], this.items[pair[1]]] as [T, T]);
+  }
+
+  private forEachCell(box: AABB, callback: (key: string) => void): void {
+    const minCX = Math.floor(box.minX / this.cellSize);
+    const minCY = Math.floor(box.minY / this.cellSize);
+    const maxCX = Math.floor(box.maxX / this.cellSize);
+    const maxCY = Math.floor(box.maxY / this.cellSize);
+
+    for (let cx = minCX; cx <= maxCX; cx++) {
+      for (let cy = minCY; cy <= maxCY; cy++) {
+        callback(cx + ',' + cy);
+      }
+    }
+  }
+}
+
+function overlaps(a: AABB, b: AABB): boolean {
+  return a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY;
+}
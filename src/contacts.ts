@@ -0,0 +1,58 @@
+// src/contacts.ts
+/**
+ * 碰撞事件总线
+ * 物理引擎按固定步汇总接触，发出 begin / persist / end 事件；
+ * 音效、震动、粒子、计分、成就等各自订阅，无需改写弹珠对象
+ */
+
+import { Vector, PhysicsBody } from './physics';
+
+export type ContactPhase = 'begin' | 'persist' | 'end';
+
+export interface ContactEvent {
+  phase: ContactPhase;
+  a: PhysicsBody;          // 主动方（动态物体）
+  b: PhysicsBody | null;   // 被碰撞方；世界边界为 null
+  surface: 'body' | 'wall';
+  point: Vector;           // 接触点（世界坐标）
+  normal: Vector;          // 单位法线，由 b 指向 a
+  impulse: number;         // 本步法向冲量之和；end 事件为 0
+  material: string;        // 被碰撞表面的材质 id
+  step: number;            // 发生时的固定步序号
+}
+
+export type ContactListener = (event: ContactEvent) => void;
+
+export class ContactEventBus {
+  private listeners: Map<ContactPhase | 'all', ContactListener[]> = new Map();
+
+  /**
+   * 订阅事件，phase 为 'all' 时接收所有阶段；返回取消订阅函数
+   */
+  public on(phase: ContactPhase | 'all', listener: ContactListener): () => void {
+    const list = this.listeners.get(phase) || [];
+    list.push(listener);
+    this.listeners.set(phase, list);
+    return () => this.off(phase, listener);
+  }
+
+  public off(phase: ContactPhase | 'all', listener: ContactListener): void {
+    const list = this.listeners.get(phase);
+    if (!list) return;
+    const index = list.indexOf(listener);
+    if (index >= 0) list.splice(index, 1);
+  }
+
+  public emit(event: ContactEvent): void {
+    const specific = this.listeners.get(event.phase) || [];
+    const all = this.listeners.get('all') || [];
+    // 复制一份，允许监听器在回调中取消订阅
+    [...specific, ...all].forEach(listener => listener(event));
+  }
+
+  public clear(): void {
+    this.listeners.clear();
+  }
+}
+
+export default ContactEventBus;
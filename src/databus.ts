@@ -1,7 +1,15 @@
 // src/databus.ts
 
-import { Vector } from "./physics";
-import { GameSubState } from './GameStates';
+import { Vector, SurfaceZone } from "./physics";
+import { GameSubState, GameResult } from './GameStates';
+import { KinematicMotion, KinematicBase, attachMotion } from './kinematics';
+import { MaterialRegistry } from './materials';
+import { MapDefinition, DEFAULT_MAP_ID, getMap } from './maps';
+import { ShotLimits } from './shot';
+import { ForceField } from './fields';
+import { BetLedgerEntry, getBetPayout } from './betting';
+import { rankRacers } from './race';
+import { SeatProfile, SeatRecords, DEFAULT_SEATS, recordSeatResult } from './hotseat';
 
 /**
  * 游戏状态管理器 - DataBus
@@ -20,13 +28,20 @@ export interface GameBall
   isStatic: boolean;
   restitution: number;
   friction: number;
+  angularVelocity?: number; // 侧旋（弧度/秒），正值向顺时针方向弯
+  angle?: number;           // 累计转角，用于绘制旋转标记
+  isSleeping?: boolean;     // 由物理引擎维护的休眠状态
+  sleepTimer?: number;
+  isOutOfBounds?: boolean;  // 出界被淘汰
+  isDisabled?: boolean;     // 出界后退出碰撞
+  shotOrigin?: { x: number; y: number }; // 最近一次击球前的位置，出界罚分或进洞后放回这里
+  capturedBy?: string;      // 落入的洞 id
   color: string;
   isPlayer?: boolean;
   isEnemy?: boolean;
   hasBet?: boolean;
   finished?: boolean;
   finishTime?: number;
-  onCollide?: ( other: any, force: number ) => void;
   
   // 技能相关属性
   marbleId?: string;
@@ -47,11 +62,27 @@ export interface GameBall
 export interface GameObstacle
 {
   id: string;
-  type: 'rectangle';
-  x: number;
+  type: 'rectangle' | 'polygon' | 'segment' | 'hole';
+  x: number;      // 洞口为圆心
   y: number;
-  width: number;
+  width: number;  // 矩形尺寸；多边形、线段和洞口为包围盒尺寸
   height: number;
+  angle?: number;
+  vertices?: Vector[];
+  x2?: number;
+  y2?: number;
+  radius?: number; // 线段墙的半厚度 / 洞口半径
+  captureSpeed?: number; // 洞口吃进弹珠的速度上限
+  rimPull?: number;      // 洞口对掠过弹珠的拉力
+  points?: number;       // 进洞得分
+  isKinematic?: boolean;
+  motion?: KinematicMotion; // 脚本运动数据（往返、绕圈、旋转、闸门）
+  motionBase?: KinematicBase;
+  angularVelocity?: number;
+  isDisabled?: boolean;
+  material?: string; // 材质 id（冰、沙、泥、弹板、粘板等）
+  isSleeping?: boolean;
+  sleepTimer?: number;
   vx: number;
   vy: number;
   mass: number;
@@ -114,14 +145,18 @@ class DataBus
 
   // 游戏状态
   private currentMarble: string = 'basic_red'; // 当前使用的弹珠ID
+  private currentMapId: string = DEFAULT_MAP_ID; // 当前地图ID
   public frame: number = 0;
   public score: number = 10; // 初始积分
   public gameState: GameSubState = GameSubState.IDLE;
   public selectedBall: GameBall | null = null;
   public betAmount: number = 0;
+  public betOdds: number = 1;
+  public betLedger: BetLedgerEntry[] = []; // 下注账本（持久化）
   public lastClaimTime: number = 0;
   public claimCooldown: number = 3600000; // 1小时
   public claimAmount: number = 5;
+  public matchSeed: number = 0; // 对局种子，用于回放与确定性模拟
 
   // 物理参数
   public gravity: number = 0.3;
@@ -132,6 +167,9 @@ class DataBus
   // 游戏对象
   public balls: GameBall[] = [];
   public obstacles: GameObstacle[] = [];
+  public zones: SurfaceZone[] = []; // 地面材质区域
+  public pocketScores = { player: 0, enemy: 0 }; // 打洞玩法本局双方得分
+  public fields: ForceField[] = []; // 当前地图的力场（已换算为像素）
   public finishLine = { x: 0, y: 0, width: 0, height: 0 };
   public mapHeight: number = 0;
 
@@ -145,8 +183,14 @@ class DataBus
   public totalGamesPlayed: number = 0;
   public totalWins: number = 0;
   public totalLosses: number = 0;
+  public totalDraws: number = 0;
   public highestScore: number = 0;
 
+  // 双人同屏：双方资料和按名字记录的战绩（持久化），本局为双人同屏时 hotSeat 为双方资料
+  public hotSeats: SeatProfile[] = DEFAULT_SEATS.map( seat => ( { ...seat } ) );
+  public hotSeatRecords: SeatRecords = {};
+  public hotSeat: SeatProfile[] | null = null;
+
   // 弹珠解锁状态管理
   private marbleUnlocks: { [key: string]: boolean } = {};
 
@@ -157,9 +201,32 @@ class DataBus
     PLAYER_RADIUS: 15,
     ENEMY_RADIUS: 15,
     OBSTACLE_COUNT: 8,
-    TURN_TIME: 6,
+    MOVABLE_OBSTACLE_COUNT: 2, // 其中可推动的木箱数量
+    KINEMATIC_OBSTACLE_COUNT: 1, // 其中按脚本运动的障碍物数量
+    BUMPER_COUNT: 1, // 其中弹板障碍物数量
+    SURFACE_ZONE_MATERIALS: [ 'ice', 'sand' ], // 每局随机铺设的地面区域材质
+    HOLES: [ { radius: 28, points: 1 }, { radius: 24, points: 2 }, { radius: 20, points: 3 } ], // 打洞玩法的洞口，越小分越高
+    HOLE_CAPTURE_SPEED: 180, // 进洞速度上限（像素/秒），更快会从洞口滑过
+    HOLE_RIM_PULL: 1200, // 洞口边缘把弹珠拉向洞心的加速度（像素/秒²）
+    HOLE_TARGET_SCORE: 5, // 打洞玩法先达到该分数的一方获胜
+    MATCH_REWARDS: { // 对局结束时按结果发放的积分和经验
+      [GameResult.WIN]: { score: 20, exp: 20 },
+      [GameResult.DRAW]: { score: 5, exp: 10 },
+      [GameResult.LOSE]: { score: 0, exp: 5 },
+      [GameResult.ABANDONED]: { score: 0, exp: 0 }
+    } as Record<GameResult, { score: number; exp: number }>,
+    TURN_TIME: 6, // 每次击球的时限（秒）
+    SHOT_CLOCK_WARNING: 3, // 最后几秒每秒震动和提示音
+    AI_THINK_TIME: 1.5, // AI 出手前的思考时间（秒）
+    TIMEOUT_SHOT_SPEED: 150, // 超时随机弱击的速度（像素/秒）
+    TIMEOUT_PENALTY: 5, // 超时扣除的积分
+    GRADE_HAND_SPAN_BONUS: 5, // 每升一级增加的一扎距离
+    GRADE_FORCE_BONUS: 50, // 每升一级增加的最大力量
     HAND_SPAN: 20,
     MAX_FORCE: 1800,
+    MAX_SPIN: 20, // 加塞（侧旋）击球的最大转速（弧度/秒）
+    MAX_DRAG: 200, // 满力所需的拖拽距离（像素）
+    MAX_SHOT_SPEED: 900, // 满力击球的初速度（像素/秒）
     BACKGROUND_COLOR: '#2c3e50',
     BACKGROUND_COLORS: [
       '#2c3e50',  // 原色：关卡1
@@ -172,7 +239,10 @@ class DataBus
       player: '#3498db',
       enemy: '#e74c3c'
     },
-    OBSTACLE_COLOR: '#95a5a6'
+    OBSTACLE_COLOR: '#95a5a6',
+    CRATE_COLOR: '#a0522d',
+    KINEMATIC_COLOR: '#8e44ad',
+    HOLE_COLOR: '#111820'
   };
 
   private constructor ()
@@ -193,6 +263,20 @@ class DataBus
     this.saveToLocal();
   }
 
+  /**
+   * 获取当前地图（含物理参数）
+   */
+  public getCurrentMap (): MapDefinition
+  {
+    return getMap( this.currentMapId );
+  }
+
+  setCurrentMap ( mapId: string ): void
+  {
+    this.currentMapId = getMap( mapId ).id;
+    this.saveToLocal();
+  }
+
   // 弹珠解锁状态管理
   public isMarbleUnlocked ( marbleId: string ): boolean
   {
@@ -224,8 +308,12 @@ class DataBus
       // 基础游戏数据
       wx.setStorageSync( 'score', this.score );
       wx.setStorageSync( 'currentMarble', this.currentMarble );
+      wx.setStorageSync( 'currentMap', this.currentMapId );
       wx.setStorageSync( 'playerGrade', this.playerGrade );
+      wx.setStorageSync( 'betLedger', this.betLedger );
       wx.setStorageSync( 'playerExp', this.playerExp );
+      wx.setStorageSync( 'hotSeats', this.hotSeats );
+      wx.setStorageSync( 'hotSeatRecords', this.hotSeatRecords );
       
       // 弹珠解锁状态
       wx.setStorageSync( 'marbleUnlocks', this.marbleUnlocks );
@@ -250,6 +338,7 @@ class DataBus
         totalGamesPlayed: this.totalGamesPlayed || 0,
         totalWins: this.totalWins || 0,
         totalLosses: this.totalLosses || 0,
+        totalDraws: this.totalDraws || 0,
         highestScore: this.highestScore || 0,
         totalMarblesUnlocked: Object.keys(this.marbleUnlocks).filter(key => this.marbleUnlocks[key]).length
       });
@@ -268,12 +357,36 @@ class DataBus
         this.score = Number( savedScore ) || 0;
       }
 
+      const savedLedger = wx.getStorageSync( 'betLedger' );
+      if ( Array.isArray( savedLedger ) )
+      {
+        this.betLedger = savedLedger;
+      }
+
+      const savedSeats = wx.getStorageSync( 'hotSeats' );
+      if ( Array.isArray( savedSeats ) && savedSeats.length === DEFAULT_SEATS.length )
+      {
+        this.hotSeats = savedSeats;
+      }
+
+      const savedRecords = wx.getStorageSync( 'hotSeatRecords' );
+      if ( savedRecords && typeof savedRecords === 'object' )
+      {
+        this.hotSeatRecords = savedRecords;
+      }
+
       const savedMarble = wx.getStorageSync( 'currentMarble' );
       if ( savedMarble !== undefined )
       {
         this.currentMarble = savedMarble;
       }
 
+      const savedMap = wx.getStorageSync( 'currentMap' );
+      if ( savedMap )
+      {
+        this.currentMapId = getMap( savedMap ).id;
+      }
+
       const savedGrade = wx.getStorageSync( 'playerGrade' );
       if ( savedGrade !== undefined )
       {
@@ -320,6 +433,7 @@ class DataBus
         this.totalGamesPlayed = gameStats.totalGamesPlayed || 0;
         this.totalWins = gameStats.totalWins || 0;
         this.totalLosses = gameStats.totalLosses || 0;
+        this.totalDraws = gameStats.totalDraws || 0;
         this.highestScore = gameStats.highestScore || 0;
       }
 
@@ -352,6 +466,7 @@ class DataBus
     this.gameState = GameSubState.IDLE;
     this.selectedBall = null;
     this.betAmount = 0;
+    this.betOdds = 1;
     this.lastClaimTime = 0;
     this.claimCooldown = 3600000;
     this.claimAmount = 5;
@@ -365,14 +480,15 @@ class DataBus
     // 清空游戏对象
     this.balls = [];
     this.obstacles = [];
+    this.zones = [];
+    this.pocketScores = { player: 0, enemy: 0 };
+    this.fields = [];
     this.finishLine = { x: 0, y: 0, width: 0, height: 0 };
     this.mapHeight = 0;
 
-    // 重置玩家属性
-    this.playerGrade = 1;
-    this.playerExp = 0;
-    this.handSpan = 120;
-    this.maxForce = 18000;
+    // 重置本局属性：等级和经验跨局保留，一扎距离和力量按等级成长
+    this.handSpan = 120 + ( this.playerGrade - 1 ) * this.config.GRADE_HAND_SPAN_BONUS;
+    this.maxForce = 18000 + ( this.playerGrade - 1 ) * this.config.GRADE_FORCE_BONUS;
 
     this.pool.clear();
   }
@@ -386,7 +502,7 @@ class DataBus
     if ( item.type === 'circle' )
     {
       this.pool.recover( 'ball', item );
-    } else if ( item.type === 'rectangle' )
+    } else
     {
       this.pool.recover( 'obstacle', item );
     }
@@ -399,8 +515,7 @@ class DataBus
     id: string,
     x: number,
     y: number,
-    type: 'player' | 'enemy',
-    onCollide?: ( other: any, force: number ) => void
+    type: 'player' | 'enemy'
   ): GameBall
   {
     const ball = this.pool.getItemByClass( 'ball', Object ) as GameBall;
@@ -416,6 +531,10 @@ class DataBus
     ball.isStatic = false;
     ball.restitution = 0.9;
     ball.friction = 0.01;
+    ball.angularVelocity = 0;
+    ball.angle = 0;
+    ball.isSleeping = false;
+    ball.sleepTimer = 0;
     // 使用当前选择的弹珠颜色（仅对玩家弹珠）
     if (type === 'player') {
       ball.color = this.getCurrentMarbleColor();
@@ -427,7 +546,6 @@ class DataBus
     ball.hasBet = false;
     ball.finished = false;
     ball.finishTime = 0;
-    ball.onCollide = onCollide;
     ball.marbleId = type === 'player' ? this.currentMarble : 'enemy_default';
     ball.matchSkills = [];
     ball.skillNotes = [];
@@ -437,10 +555,33 @@ class DataBus
     ball.passThroughObstacleCount = 0;
     ball.bonusBounceCount = 0;
     ball.bonusBounceRestitution = 1;
+    ball.isOutOfBounds = false;
+    ball.isDisabled = false;
+    ball.shotOrigin = { x, y };
+    ball.capturedBy = undefined;
 
     return ball;
   }
 
+  /**
+   * 记录击球前的位置
+   */
+  recordShotOrigin ( ball: GameBall ): void
+  {
+    ball.shotOrigin = { x: ball.x, y: ball.y };
+  }
+
+  /**
+   * 任意一方击球前记录所有在场弹珠的位置，被撞出界或撞进洞的弹珠也放回这一击之前的位置
+   */
+  recordShotOrigins ( balls: GameBall[] ): void
+  {
+    balls.forEach( ball =>
+    {
+      if ( !ball.isDisabled ) this.recordShotOrigin( ball );
+    } );
+  }
+
   /**
    * 获取当前弹珠的颜色
    */
@@ -480,7 +621,8 @@ class DataBus
     x: number,
     y: number,
     width: number,
-    height: number
+    height: number,
+    angle: number = 0
   ): GameObstacle
   {
     const obstacle = this.pool.getItemByClass( 'obstacle', Object ) as GameObstacle;
@@ -491,6 +633,22 @@ class DataBus
     obstacle.y = y;
     obstacle.width = width;
     obstacle.height = height;
+    obstacle.angle = angle;
+    obstacle.vertices = undefined;
+    obstacle.x2 = undefined;
+    obstacle.y2 = undefined;
+    obstacle.radius = undefined;
+    obstacle.isKinematic = false;
+    obstacle.motion = undefined;
+    obstacle.motionBase = undefined;
+    obstacle.angularVelocity = 0;
+    obstacle.isDisabled = false;
+    obstacle.material = undefined;
+    obstacle.captureSpeed = undefined;
+    obstacle.rimPull = undefined;
+    obstacle.points = undefined;
+    obstacle.isSleeping = false;
+    obstacle.sleepTimer = 0;
     obstacle.vx = 0;
     obstacle.vy = 0;
     obstacle.mass = 0;
@@ -502,6 +660,166 @@ class DataBus
     return obstacle;
   }
 
+  /**
+   * 创建可推动的障碍物（木箱、滑块），质量按面积估算
+   * groundFriction 为与地面的摩擦系数，越大停得越快
+   */
+  createMovableObstacle (
+    id: string,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    density: number = 0.002,
+    groundFriction: number = 0.08
+  ): GameObstacle
+  {
+    const obstacle = this.createObstacle( id, x, y, width, height );
+
+    obstacle.isStatic = false;
+    obstacle.mass = Math.max( 0.5, width * height * density );
+    obstacle.friction = groundFriction;
+    obstacle.restitution = 0.3;
+    obstacle.color = this.config.CRATE_COLOR;
+
+    return obstacle;
+  }
+
+  /**
+   * 创建凸多边形障碍物（顶点为相对 (x, y) 的局部坐标）
+   */
+  createPolygonObstacle (
+    id: string,
+    x: number,
+    y: number,
+    vertices: Vector[],
+    angle: number = 0
+  ): GameObstacle
+  {
+    const xs = vertices.map( v => v.x );
+    const ys = vertices.map( v => v.y );
+    const obstacle = this.createObstacle( id, x, y,
+      Math.max( ...xs ) - Math.min( ...xs ), Math.max( ...ys ) - Math.min( ...ys ), angle );
+
+    obstacle.type = 'polygon';
+    obstacle.vertices = vertices.map( v => ( { x: v.x, y: v.y } ) );
+
+    return obstacle;
+  }
+
+  /**
+   * 创建线段墙（两端为圆头的胶囊体，thickness 为总厚度）
+   */
+  createWallSegment (
+    id: string,
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    thickness: number
+  ): GameObstacle
+  {
+    const obstacle = this.createObstacle( id, x1, y1, Math.abs( x2 - x1 ), Math.abs( y2 - y1 ) );
+
+    obstacle.type = 'segment';
+    obstacle.x2 = x2;
+    obstacle.y2 = y2;
+    obstacle.radius = thickness / 2;
+
+    return obstacle;
+  }
+
+  /**
+   * 创建洞口（以圆心定位），慢速进入的弹珠会被吃进
+   */
+  createHole (
+    id: string,
+    x: number,
+    y: number,
+    radius: number,
+    points: number
+  ): GameObstacle
+  {
+    const hole = this.createObstacle( id, x, y, radius * 2, radius * 2 );
+
+    hole.type = 'hole';
+    hole.radius = radius;
+    hole.captureSpeed = this.config.HOLE_CAPTURE_SPEED;
+    hole.rimPull = this.config.HOLE_RIM_PULL;
+    hole.points = points;
+    hole.color = this.config.HOLE_COLOR;
+
+    return hole;
+  }
+
+  /**
+   * 为障碍物挂载脚本运动，以当前姿态为基准
+   */
+  setObstacleMotion ( obstacle: GameObstacle, motion: KinematicMotion ): GameObstacle
+  {
+    attachMotion( obstacle, motion );
+    obstacle.mass = 0;
+    obstacle.color = this.config.KINEMATIC_COLOR;
+
+    return obstacle;
+  }
+
+  /**
+   * 为障碍物指定材质，颜色随材质变化
+   */
+  setObstacleMaterial ( obstacle: GameObstacle, materialId: string ): GameObstacle
+  {
+    const material = MaterialRegistry.getInstance().get( materialId );
+
+    obstacle.material = material.id;
+    obstacle.restitution = material.restitution;
+    obstacle.color = material.color;
+
+    return obstacle;
+  }
+
+  /**
+   * 创建矩形地面材质区域
+   */
+  createSurfaceZone (
+    id: string,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    materialId: string
+  ): SurfaceZone
+  {
+    return { id, shape: 'rectangle', x, y, width, height, material: materialId };
+  }
+
+  /**
+   * 创建圆形地面材质区域
+   */
+  createCircularSurfaceZone (
+    id: string,
+    x: number,
+    y: number,
+    radius: number,
+    materialId: string
+  ): SurfaceZone
+  {
+    return { id, shape: 'circle', x, y, radius, material: materialId };
+  }
+
+  /**
+   * 击球参数（实际击球与轨迹预览共用）
+   */
+  getShotLimits ( ball?: GameBall ): ShotLimits
+  {
+    return {
+      maxDrag: this.config.MAX_DRAG,
+      maxSpeed: this.config.MAX_SHOT_SPEED,
+      maxSpin: this.config.MAX_SPIN,
+      speedMultiplier: ball ? ball.speedMultiplier || 1 : 1
+    };
+  }
+
   /**
    * 获取玩家弹珠
    */
@@ -524,16 +842,18 @@ class DataBus
   /**
    * 记录游戏结果
    */
-  public recordGameResult(won: boolean): void {
+  public recordGameResult(result: GameResult): void {
     this.totalGamesPlayed++;
-    if (won) {
+    if (result === GameResult.WIN) {
       this.totalWins++;
+    } else if (result === GameResult.DRAW) {
+      this.totalDraws++;
     } else {
       this.totalLosses++;
     }
     this.updateHighestScore();
     this.saveToLocal();
-    console.log(`游戏结果记录 - 总场次: ${this.totalGamesPlayed}, 胜: ${this.totalWins}, 负: ${this.totalLosses}`);
+    console.log(`游戏结果记录 - 总场次: ${this.totalGamesPlayed}, 胜: ${this.totalWins}, 负: ${this.totalLosses}, 平: ${this.totalDraws}`);
   }
 
   /**
@@ -551,6 +871,7 @@ class DataBus
     totalGamesPlayed: number;
     totalWins: number;
     totalLosses: number;
+    totalDraws: number;
     highestScore: number;
     winRate: number;
     totalMarblesUnlocked: number;
@@ -559,12 +880,43 @@ class DataBus
       totalGamesPlayed: this.totalGamesPlayed,
       totalWins: this.totalWins,
       totalLosses: this.totalLosses,
+      totalDraws: this.totalDraws,
       highestScore: this.highestScore,
       winRate: this.getWinRate(),
       totalMarblesUnlocked: Object.keys(this.marbleUnlocks).filter(key => this.marbleUnlocks[key]).length
     };
   }
 
+  /**
+   * 开始双人同屏：保存双方资料，之后的对局（含再来一局）都按双人同屏进行
+   */
+  public startHotSeat ( seats: SeatProfile[] ): void
+  {
+    this.hotSeats = seats.map( seat => ( { ...seat } ) );
+    this.hotSeat = this.hotSeats;
+    this.saveToLocal();
+  }
+
+  /**
+   * 回到主菜单时结束双人同屏
+   */
+  public endHotSeat (): void
+  {
+    this.hotSeat = null;
+  }
+
+  /**
+   * 记录双人同屏的结果，与单人战绩分开
+   * @param result 第一位玩家的结果
+   */
+  public recordHotSeatResult ( result: GameResult ): void
+  {
+    if ( !this.hotSeat ) return;
+    recordSeatResult( this.hotSeatRecords, this.hotSeat, result );
+    this.saveToLocal();
+    console.log( `双人同屏结果记录: ${ this.hotSeat.map( seat => seat.name ).join( ' vs ' ) } ${ result }` );
+  }
+
   /**
    * 获取敌人弹珠
    */
@@ -634,8 +986,9 @@ class DataBus
   }
   /**
    * 下注
+   * @param odds 赢时的赔率，结算见 settleBet
    */
-  placeBet ( amount: number ): boolean
+  placeBet ( amount: number, odds: number = 1 ): boolean
   {
     if ( !this.selectedBall )
     {
@@ -648,7 +1001,9 @@ class DataBus
     }
 
     this.betAmount = amount;
+    this.betOdds = odds;
     this.score -= amount;
+    this.saveToLocal();
 
     // 重置所有弹珠的下注状态
     this.balls.forEach( ball =>
@@ -662,6 +1017,36 @@ class DataBus
     return true;
   }
 
+  /**
+   * 结算本局下注：按结果返还积分并记入账本，返回返还的积分
+   */
+  settleBet ( result: GameResult ): number
+  {
+    if ( this.betAmount <= 0 )
+    {
+      return 0;
+    }
+
+    const payout = getBetPayout( this.betAmount, this.betOdds, result );
+    this.betLedger.push( {
+      time: Date.now(),
+      mapId: this.currentMapId,
+      stake: this.betAmount,
+      odds: this.betOdds,
+      result,
+      payout
+    } );
+    this.score += payout;
+    this.betAmount = 0;
+    this.betOdds = 1;
+    this.balls.forEach( ball =>
+    {
+      ball.hasBet = false;
+    } );
+    this.saveToLocal();
+    return payout;
+  }
+
   /**
    * 获取冷却剩余时间（毫秒）
    */
@@ -683,8 +1068,8 @@ class DataBus
     {
       this.playerExp -= 100;
       this.playerGrade++;
-      this.handSpan += 5; // 升级增加一扎距离
-      this.maxForce += 50; // 升级增加最大力量
+      this.handSpan += this.config.GRADE_HAND_SPAN_BONUS;
+      this.maxForce += this.config.GRADE_FORCE_BONUS;
     }
   }
 
@@ -701,9 +1086,7 @@ class DataBus
    */
   getRanking (): GameBall[]
   {
-    return [ ...this.balls ]
-      .filter( ball => ball.finished )
-      .sort( ( a, b ) => ( a.finishTime || 0 ) - ( b.finishTime || 0 ) );
+    return rankRacers( this.balls );
   }
 }
 
@@ -0,0 +1,177 @@
+// src/debugOverlay.ts
+/**
+ * 物理调试层
+ * 在游戏画面上叠加速度向量、接触法线和冲量、包围盒、休眠状态、
+ * 双方的一扎范围以及每颗弹珠剩余的穿透/额外反弹次数。
+ * 游戏中三指同时按下屏幕切换显示
+ */
+
+import { PhysicsEngine, PhysicsBody, Vector } from './physics';
+import { ContactEvent } from './contacts';
+import DataBus, { GameBall, GameObstacle } from './databus';
+
+interface RecentContact {
+  point: Vector;
+  normal: Vector;
+  impulse: number;
+  time: number; // 记录时的模拟时间
+}
+
+const CONTACT_LIFETIME = 0.8;   // 接触标记保留的模拟时间（秒）
+const MAX_CONTACTS = 64;
+const VELOCITY_SCALE = 0.1;     // 速度向量长度 = 速度 × 比例
+const IMPULSE_SCALE = 0.2;      // 冲量线长度 = 冲量 × 比例
+const MAX_IMPULSE_LENGTH = 60;
+
+export class DebugOverlay {
+  private enabled: boolean = false;
+  private engine: PhysicsEngine | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private contacts: RecentContact[] = [];
+
+  public isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  public toggle(): boolean {
+    this.enabled = !this.enabled;
+    this.contacts = [];
+    return this.enabled;
+  }
+
+  /**
+   * 订阅物理引擎的接触事件；引擎重建后需重新调用
+   */
+  public attach(engine: PhysicsEngine): void {
+    if (this.unsubscribe) this.unsubscribe();
+    this.engine = engine;
+    this.contacts = [];
+    this.unsubscribe = engine.contacts.on('all', event => this.recordContact(event));
+  }
+
+  /**
+   * 绘制调试层
+   * @param info 附加的文字行（游戏状态、回合等）
+   * @param cameraY 镜头的世界坐标偏移，统计面板不随镜头移动
+   */
+  public render(ctx: CanvasRenderingContext2D, balls: GameBall[], obstacles: GameObstacle[], handSpan: number, info: string[] = [], cameraY: number = 0): void {
+    if (!this.enabled || !this.engine) return;
+
+    const bodies: PhysicsBody[] = [...balls, ...obstacles];
+    const now = this.engine.getSimulationTime();
+    this.contacts = this.contacts.filter(contact => now - contact.time <= CONTACT_LIFETIME);
+
+    ctx.save();
+    ctx.lineWidth = 1;
+    ctx.font = '10px Arial';
+    ctx.textAlign = 'center';
+
+    ctx.save();
+    ctx.translate(0, -cameraY);
+    bodies.forEach(body => this.renderBody(ctx, body));
+    balls.forEach(ball => {
+      if (!ball.isDisabled) this.renderBallInfo(ctx, ball, handSpan);
+    });
+    this.contacts.forEach(contact => this.renderContact(ctx, contact, now));
+    ctx.restore();
+    this.renderStats(ctx, bodies, info);
+
+    ctx.restore();
+  }
+
+  private recordContact(event: ContactEvent): void {
+    if (!this.enabled || !this.engine || event.phase === 'end') return;
+
+    this.contacts.push({
+      point: { x: event.point.x, y: event.point.y },
+      normal: { x: event.normal.x, y: event.normal.y },
+      impulse: event.impulse,
+      time: this.engine.getSimulationTime()
+    });
+    if (this.contacts.length > MAX_CONTACTS) this.contacts.shift();
+  }
+
+  // 包围盒（休眠为灰色虚线）、休眠标记和速度向量
+  private renderBody(ctx: CanvasRenderingContext2D, body: PhysicsBody): void {
+    const box = this.engine!.getBodyAABB(body);
+    const sleeping = !!body.isSleeping;
+
+    ctx.strokeStyle = sleeping ? 'rgba(149, 165, 166, 0.7)' : 'rgba(0, 255, 255, 0.8)';
+    ctx.setLineDash(sleeping ? [3, 3] : []);
+    ctx.strokeRect(box.minX, box.minY, box.maxX - box.minX, box.maxY - box.minY);
+    ctx.setLineDash([]);
+
+    if (body.isStatic) return;
+
+    const centerX = (box.minX + box.maxX) / 2;
+    const centerY = (box.minY + box.maxY) / 2;
+    if (sleeping) {
+      ctx.fillStyle = '#95a5a6';
+      ctx.fillText('zz', box.maxX, box.minY);
+      return;
+    }
+
+    ctx.strokeStyle = '#f1c40f';
+    ctx.beginPath();
+    ctx.moveTo(centerX, centerY);
+    ctx.lineTo(centerX + body.vx * VELOCITY_SCALE, centerY + body.vy * VELOCITY_SCALE);
+    ctx.stroke();
+  }
+
+  // 一扎范围和剩余技能次数
+  private renderBallInfo(ctx: CanvasRenderingContext2D, ball: GameBall, handSpan: number): void {
+    ctx.strokeStyle = ball.isPlayer ? 'rgba(52, 152, 219, 0.6)' : 'rgba(231, 76, 60, 0.6)';
+    ctx.setLineDash([4, 4]);
+    ctx.beginPath();
+    ctx.arc(ball.x, ball.y, handSpan, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    ctx.fillStyle = '#ecf0f1';
+    ctx.fillText(
+      `穿${ball.passThroughObstacleCount || 0} 弹${ball.bonusBounceCount || 0}`,
+      ball.x,
+      ball.y - ball.radius - 6
+    );
+  }
+
+  // 接触点、法线和冲量，随时间淡出
+  private renderContact(ctx: CanvasRenderingContext2D, contact: RecentContact, now: number): void {
+    const length = Math.min(MAX_IMPULSE_LENGTH, 8 + contact.impulse * IMPULSE_SCALE);
+    ctx.globalAlpha = 1 - (now - contact.time) / CONTACT_LIFETIME;
+
+    ctx.fillStyle = '#e74c3c';
+    ctx.fillRect(contact.point.x - 2, contact.point.y - 2, 4, 4);
+    ctx.strokeStyle = '#e74c3c';
+    ctx.beginPath();
+    ctx.moveTo(contact.point.x, contact.point.y);
+    ctx.lineTo(contact.point.x + contact.normal.x * length, contact.point.y + contact.normal.y * length);
+    ctx.stroke();
+    if (contact.impulse > 0) {
+      ctx.fillText(contact.impulse.toFixed(0), contact.point.x + contact.normal.x * length, contact.point.y + contact.normal.y * length);
+    }
+
+    ctx.globalAlpha = 1;
+  }
+
+  // 左下角的引擎统计
+  private renderStats(ctx: CanvasRenderingContext2D, bodies: PhysicsBody[], info: string[]): void {
+    const stats = this.engine!.getFrameStats();
+    const sleeping = bodies.filter(body => !body.isStatic && body.isSleeping).length;
+    const dynamic = bodies.filter(body => !body.isStatic).length;
+    const lines = [
+      ...info,
+      `步数 ${stats.steps}  休眠 ${sleeping}/${dynamic}`,
+      `检测对 ${stats.testedPairs}/${stats.bruteForcePairs}  跳过 ${stats.skippedPairs}  扫掠 ${stats.sweepQueries}`
+    ];
+
+    const height = DataBus.config.HEIGHT;
+    ctx.textAlign = 'left';
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+    ctx.fillRect(4, height - 16 - lines.length * 14, 260, lines.length * 14 + 8);
+    ctx.fillStyle = '#2ecc71';
+    lines.forEach((line, index) => {
+      ctx.fillText(line, 10, height - 10 - (lines.length - 1 - index) * 14);
+    });
+  }
+}
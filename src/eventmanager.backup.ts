@@ -3,7 +3,7 @@ import { Vector } from "./physics";
 import { MenuSystem, MarbleType } from "./menu";
 import DataBus from './databus';
 import RetroMarbleGame from "./game";
-import { GameState, MenuState, Turn } from './GameStates';
+import { GameState, MenuState, Turn, GameResult } from './GameStates';
 
 /**
  * 游戏事件管理器
@@ -510,7 +510,7 @@ export default class EventManager
     const scoreGained = 20; // 胜利获得20积分
     this.databus.addScore( scoreGained );
     this.main.setMenuState( MenuState.GAME_OVER );
-    this.menu.showGameOver( true, `捕获成功！经验+20 (等级${ this.databus.playerGrade })` );
+    this.menu.showGameOver( GameResult.WIN, `捕获成功！经验+20 (等级${ this.databus.playerGrade })` );
   }
 
   /**
@@ -519,7 +519,7 @@ export default class EventManager
   public handleLose (): void
   {
     this.main.setMenuState( MenuState.GAME_OVER );
-    this.menu.showGameOver( false, "你的弹珠被捕获了！" );
+    this.menu.showGameOver( GameResult.LOSE, "你的弹珠被捕获了！" );
   }
 
   /**
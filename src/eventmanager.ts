@@ -5,6 +5,7 @@ import DataBus from './databus';
 import { GameState, MenuState, Turn } from './GameStates';
 import GameStateManager from './GameStateManager';
 import GameEventHandler from './GameEventHandler';
+import { getMapByName } from './maps';
 
 /**
  * 游戏事件管理器（重构版）
@@ -68,7 +69,7 @@ export default class EventManager {
   private setupEventCallbacks(): void {
     // 游戏控制回调 - 直接调用main的方法
     this.eventHandler.onGameStart = () => {
-      this.main.resetGame();
+      this.main.startPreview();
     };
 
     this.eventHandler.onGameRestart = () => {
@@ -79,7 +80,10 @@ export default class EventManager {
     // 设置变更回调
     this.eventHandler.onSettingChange = (id: string, value: any) => {
       console.log(`设置变更: ${id} = ${value}`);
-      // 可以在这里添加设置处理逻辑
+      if (id === 'map') {
+        const map = getMapByName(value);
+        if (map) DataBus.setCurrentMap(map.id);
+      }
     };
 
     // 弹珠购买回调
@@ -127,6 +131,10 @@ export default class EventManager {
       console.log(`技能激活: ${skillId}`);
       this.main.activateSkill(skillId);
     };
+
+    this.eventHandler.onDebugToggle = () => {
+      this.main.toggleDebugOverlay();
+    };
   }
 
   /**
@@ -137,6 +145,8 @@ export default class EventManager {
     this.gameStateManager.setGameState(GameState.PLAYING);
     this.main.resetGame();
     this.gameStateManager.setMenuState(MenuState.NONE);
+    this.main.setMenuState(MenuState.NONE);
+    this.main.setState(GameState.PLAYING);
   }
 
   /**
@@ -144,6 +154,9 @@ export default class EventManager {
    */
   private handleExit(): void {
     console.log('退出游戏返回主菜单');
+    DataBus.endHotSeat();
+    this.gameStateManager.setGameState(GameState.MENU);
+    this.gameStateManager.setMenuState(MenuState.MAIN);
     this.main.exitGame();
   }
 
@@ -168,10 +181,39 @@ export default class EventManager {
     isDragging: boolean;
     dragStart: { x: number; y: number } | null;
     dragEnd: { x: number; y: number } | null;
+    english: number;
   } {
     return this.eventHandler.getDragState();
   }
 
+  /**
+   * 开始新的一局：设置先手并重置击球计时
+   */
+  public resetTurn(turn: Turn): void {
+    this.eventHandler.resetTurn(turn);
+  }
+
+  /**
+   * 推进击球计时
+   */
+  public updateShotClock(dt: number, waiting: boolean): void {
+    this.eventHandler.updateShotClock(dt, waiting);
+  }
+
+  /**
+   * 获取一扎测量状态
+   */
+  public getSpanState(): ReturnType<GameEventHandler['getSpanState']> {
+    return this.eventHandler.getSpanState();
+  }
+
+  /**
+   * 双人同屏等待换人时接手一方的资料
+   */
+  public getHandoverSeat(): ReturnType<GameEventHandler['getHandoverSeat']> {
+    return this.eventHandler.getHandoverSeat();
+  }
+
   /**
    * 切换暂停/继续
    */
@@ -0,0 +1,88 @@
+// src/fields.ts
+/**
+ * 力场模块
+ * 地图上的风带、吸引/排斥点和旋涡，对进入范围的弹珠施加加速度
+ */
+
+import { Vector } from './physics';
+
+// 风带：矩形区域内的恒定加速度
+export interface WindField {
+  type: 'wind';
+  id: string;
+  x: number;      // 矩形左上角
+  y: number;
+  width: number;
+  height: number;
+  ax: number;     // 加速度（像素/秒²）
+  ay: number;
+}
+
+// 吸引/排斥点：strength 为正时吸引、为负时排斥，力随距离线性衰减到半径处为 0
+export interface PointField {
+  type: 'point';
+  id: string;
+  x: number;
+  y: number;
+  radius: number;
+  strength: number; // 中心附近的加速度（像素/秒²）
+}
+
+// 旋涡：绕中心的切向加速度，strength 为正时在屏幕上顺时针转，可附带向心吸力
+export interface VortexField {
+  type: 'vortex';
+  id: string;
+  x: number;
+  y: number;
+  radius: number;
+  strength: number;
+  pull?: number; // 向心加速度（像素/秒²）
+}
+
+export type ForceField = WindField | PointField | VortexField;
+
+/**
+ * 力场在某点产生的加速度
+ */
+export function getFieldAcceleration(field: ForceField, x: number, y: number): Vector {
+  if (field.type === 'wind') {
+    const inside = x >= field.x && x <= field.x + field.width && y >= field.y && y <= field.y + field.height;
+    return inside ? { x: field.ax, y: field.ay } : { x: 0, y: 0 };
+  }
+
+  const dx = x - field.x;
+  const dy = y - field.y;
+  const dist = Math.sqrt(dx * dx + dy * dy);
+  if (dist >= field.radius || dist === 0) return { x: 0, y: 0 };
+
+  const falloff = 1 - dist / field.radius;
+  if (field.type === 'point') {
+    const a = field.strength * falloff;
+    return { x: -dx / dist * a, y: -dy / dist * a };
+  }
+
+  // 切线 (-dy, dx) 在 y 轴向下的屏幕坐标中为顺时针方向
+  const tangential = field.strength * falloff;
+  const pull = (field.pull || 0) * falloff;
+  return {
+    x: (-dy * tangential - dx * pull) / dist,
+    y: (dx * tangential - dy * pull) / dist
+  };
+}
+
+/**
+ * 把地图中按屏幕比例描述的力场换算为像素：坐标和尺寸按宽高缩放，半径按短边缩放
+ */
+export function layoutField(field: ForceField, width: number, height: number): ForceField {
+  if (field.type === 'wind') {
+    return {
+      ...field,
+      x: field.x * width,
+      y: field.y * height,
+      width: field.width * width,
+      height: field.height * height
+    };
+  }
+
+  return { ...field, x: field.x * width, y: field.y * height, radius: field.radius * Math.min(width, height) };
+}
@@ -1,6 +1,13 @@
 // src/game.ts
 import { Vector, PhysicsBody } from "./physics";
 import { PhysicsEngine } from "./physics";
+import { Material, MaterialRegistry } from "./materials";
+import { getProfileGravity, getMapBoundary, getGameMode, getMapHeight } from "./maps";
+import { createPhysicsForMap, createMatch } from "./simulation";
+import { ContactEvent } from "./contacts";
+import { computeShot } from "./shot";
+import { TrajectoryPreview, predictShot, getPreviewLimits } from "./trajectory";
+import GameStateManager from './GameStateManager';
 import DataBus, { GameBall, GameObstacle } from "./databus";
 import EventManager from "./eventmanager";
 import { getScreenInfo } from '../mytsglib/core/utils/screen/screenUtils'
@@ -9,7 +16,11 @@ import ShareManager from './share';
 import ToastManager from './toast';
 import ErrorHandler, { ErrorLevel } from './errorhandler';
 import { SkillManager } from './skills';
-import { GameState, MenuState, Turn, GameSubState, GameResult } from './GameStates';
+import { DebugOverlay } from './debugOverlay';
+import { BettingPanel, getBetOdds, getRaceOdds } from './betting';
+import { getFinishLine, markFinishers, getRacerName } from './race';
+import { GameState, MenuState, Turn, Controller, GameSubState, GameResult } from './GameStates';
+import { SeatProfile } from './hotseat';
 import { MenuSystem } from './menu';
 
 const canvas = wx.createCanvas();
@@ -18,19 +29,30 @@ const ctx = canvas.getContext('2d');
 // 获取 DataBus 实例
 const databus = DataBus;
 
+// HUD 中地图名后附带的边界规则说明
+const BOUNDARY_LABELS: { [mode: string]: string } = {
+  reflect: '',
+  lethal: '（出界淘汰）',
+  wrap: '（边缘绕回）',
+  open: '（开放边缘）'
+};
+
 class RetroMarbleGame {
   private restartButtonRect: { x: number, y: number, width: number, height: number } | null = null;
   private exitButtonRect: { x: number, y: number, width: number, height: number } | null = null;
   private skillButtonRects: { id: string, x: number, y: number, width: number, height: number }[] = [];
   private state: GameState = GameState.MENU;
-  private turn: Turn = Turn.PLAYER;
-  private turnTimer: number = databus.config.TURN_TIME;
   private animationId: number | null = null;
 
   private physics: PhysicsEngine;
+  private previewCache: { key: string; preview: TrajectoryPreview } | null = null;
   private menu: MenuSystem;
   private eventManager: EventManager;
   private skillManager: SkillManager;
+  private debugOverlay: DebugOverlay = new DebugOverlay();
+  private bettingPanel: BettingPanel = new BettingPanel();
+  private cameraY: number = 0; // 竞速赛道的镜头位置（世界坐标），其他地图为 0
+  private seatSkillIds: string[][] = []; // 双人同屏双方各自的弹珠技能，人机对战为空
 
   // 添加菜单状态变量
   private menuState: MenuState = MenuState.MAIN;
@@ -59,6 +81,11 @@ class RetroMarbleGame {
       // 初始化技能管理器
       this.skillManager = new SkillManager();
 
+      // 赛前预览/下注面板
+      this.bettingPanel.onBet = () => this.enterBetting();
+      this.bettingPanel.onConfirm = (stake, odds) => this.startMatch(stake, odds);
+      this.bettingPanel.onSkip = () => this.startMatch(0, 1);
+
       // 初始化分享功能
       ShareManager;
       
@@ -106,7 +133,17 @@ class RetroMarbleGame {
    */
   public updatePhysicsBounds(): void {
     if (this.physics) {
-      this.physics = new PhysicsEngine(databus.config.WIDTH, databus.config.HEIGHT);
+      // 重力、空气阻力和边界由当前地图决定（俯视桌面无重力），竞速赛道比屏幕长
+      const map = databus.getCurrentMap();
+      this.physics = createPhysicsForMap(map, databus.config.WIDTH, getMapHeight(map, databus.config.HEIGHT));
+      this.physics.onBodyOutOfBounds = body => console.log(`${body.id}出界`);
+      this.physics.onBodyCaptured = (body, hole) => console.log(`${body.id}进洞 ${hole.id}`);
+      // 静止判定以引擎的休眠状态为准（包括被撞动的木箱）
+      this.physics.onAllBodiesAtRest = () => this.handleAllBodiesAtRest();
+      this.physics.contacts.on('begin', event => this.handleCollision(event));
+      this.physics.setSurfaceZones(databus.zones);
+      this.physics.setForceFields(databus.fields);
+      this.debugOverlay.attach(this.physics);
       console.log(`物理引擎边界已更新: ${databus.config.WIDTH}x${databus.config.HEIGHT}`);
     }
   }
@@ -127,41 +164,6 @@ class RetroMarbleGame {
     });
   }
 
-  private isObstaclePlacementValid(x: number, y: number, width: number, height: number): boolean {
-    const padding = 6;
-
-    const overlapsBall = databus.balls.some(ball => {
-      const closestX = Math.max(x, Math.min(ball.x, x + width));
-      const closestY = Math.max(y, Math.min(ball.y, y + height));
-      const dx = ball.x - closestX;
-      const dy = ball.y - closestY;
-      const minDistance = ball.radius + padding;
-
-      return dx * dx + dy * dy < minDistance * minDistance;
-    });
-
-    if (overlapsBall) {
-      return false;
-    }
-
-    return !databus.obstacles.some(obstacle => {
-      const left = x - padding;
-      const right = x + width + padding;
-      const top = y - padding;
-      const bottom = y + height + padding;
-
-      const obstacleLeft = obstacle.x - padding;
-      const obstacleRight = obstacle.x + obstacle.width + padding;
-      const obstacleTop = obstacle.y - padding;
-      const obstacleBottom = obstacle.y + obstacle.height + padding;
-
-      return left < obstacleRight &&
-        right > obstacleLeft &&
-        top < obstacleBottom &&
-        bottom > obstacleTop;
-    });
-  }
-
   private getSkillButtonColor(skillId: string): string {
     const skillColors: { [key: string]: string } = {
       wall_pass_once: '#8e44ad',
@@ -173,78 +175,103 @@ class RetroMarbleGame {
     return skillColors[skillId] || '#7f8c8d';
   }
 
-  public resetGame(): void {
+  /**
+   * 重置对局
+   * @param seed 对局种子，相同种子得到相同的障碍布局和先手（用于回放）
+   */
+  public resetGame(seed?: number): void {
+    // 未结算的下注视为放弃
+    if (databus.betAmount > 0) databus.settleBet(GameResult.ABANDONED);
+
     // 重置 DataBus
     databus.reset();
     var info = getScreenInfo();
     databus.initConfig(info.width, info.height);
+    databus.matchSeed = seed !== undefined ? seed : Date.now();
     // 同步更新物理引擎边界
     this.updatePhysicsBounds();
-    // 重置游戏状态
-    this.turn = Math.random() > 0.5 ? Turn.PLAYER : Turn.AI;
-    this.turnTimer = databus.config.TURN_TIME;
-    this.skillManager.configureSkillsForMatch(databus.getCurrentMarble());
-
-    // 创建玩家弹珠
-    const playerBall = databus.createBall(
-      'player',
-      100,
-      databus.config.HEIGHT / 2,
-      'player',
-      (other, force) => this.handleCollision('player', force)
-    );
-    this.skillManager.applyMatchSkillsToBall(playerBall);
-    databus.balls.push(playerBall);
-
-    // 创建敌人弹珠
-    const enemyBall = databus.createBall(
-      'enemy',
-      databus.config.WIDTH - 100,
-      databus.config.HEIGHT / 2,
-      'enemy',
-      (other, force) => this.handleCollision('enemy', force)
-    );
-    enemyBall.matchSkills = [];
-    enemyBall.skillNotes = [];
-    databus.balls.push(enemyBall);
-
-    // 创建障碍物
-    for (let i = 0; i < databus.config.OBSTACLE_COUNT; i++) {
-      const width = 40 + Math.random() * 60;
-      const height = 40 + Math.random() * 60;
-
-      // 避免与弹珠位置重叠
-      let x = 0;
-      let y = 0;
-      let valid = false;
-      let attempts = 0;
-      while (!valid && attempts < 50) {
-        attempts++;
-        x = 80 + Math.random() * (databus.config.WIDTH - 160);
-        y = 100 + Math.random() * (databus.config.HEIGHT - 200);
-
-        valid = this.isObstaclePlacementValid(x, y, width, height);
-      }
 
-      if (!valid) {
-        continue;
-      }
-
-      const obstacle = databus.createObstacle(
-        `obstacle_${i}`,
-        x, y,
-        width, height
-      );
-      databus.obstacles.push(obstacle);
+    // 按种子生成对局布局（与无界面模拟共用同一套生成逻辑）
+    const match = createMatch({
+      width: databus.config.WIDTH,
+      height: databus.config.HEIGHT,
+      seed: databus.matchSeed,
+      teamSize: Number(this.menu.getSetting('team_size')) || 1,
+      racers: databus.hotSeat ? 2 : undefined // 双人同屏的竞速每人一颗
+    });
+    databus.balls = match.balls;
+    databus.obstacles = match.obstacles;
+    databus.zones = match.zones;
+    databus.fields = match.fields;
+    databus.mapHeight = match.height;
+    if (getGameMode(databus.getCurrentMap()) === 'race') {
+      databus.finishLine = getFinishLine(match.width, match.height);
+    }
+    this.cameraY = 0;
+    this.physics.setSurfaceZones(databus.zones);
+    this.physics.setForceFields(databus.fields);
+
+    // 重置游戏状态：双人同屏时对手一方也由玩家操控
+    GameStateManager.getInstance().setControllers(Controller.HUMAN, databus.hotSeat ? Controller.HUMAN : Controller.AI);
+    this.eventManager.resetTurn(match.turn === 'player' ? Turn.PLAYER : Turn.AI);
+    this.seatSkillIds = [];
+    if (databus.hotSeat) {
+      this.applySeats(databus.hotSeat);
+    } else {
+      this.skillManager.configureSkillsForMatch(databus.getCurrentMarble());
+      databus.balls.forEach(ball => {
+        if (ball.isPlayer) this.skillManager.applyMatchSkillsToBall(ball);
+      });
     }
 
     // 设置选中的弹珠（默认为玩家弹珠）
     databus.selectBall('player');
+    // 事件处理器通过状态管理器取弹珠，与本局共享同一组对象；本回合要弹的弹珠默认为第一颗
+    GameStateManager.getInstance().setBalls(databus.balls);
+    GameStateManager.getInstance().selectBall('player');
+    this.previewCache = null;
+  }
+
+  /**
+   * 双人同屏：双方弹珠换成各自的颜色和弹珠技能，并记下每方的技能配置
+   */
+  private applySeats(seats: SeatProfile[]): void {
+    seats.forEach((seat, index) => {
+      this.skillManager.configureSkillsForMatch(seat.marbleId);
+      this.seatSkillIds[index] = this.skillManager.getMatchSkillIds();
+      databus.balls.forEach(ball => {
+        if (ball.isPlayer !== (index === 0)) return;
+        ball.color = seat.color;
+        ball.marbleId = seat.marbleId;
+        this.skillManager.applyMatchSkillsToBall(ball);
+      });
+    });
+    this.syncSeatSkills();
+  }
+
+  /**
+   * 双人同屏：技能标签和可用技能跟着当前回合的一方切换
+   */
+  private syncSeatSkills(): void {
+    const skillIds = this.seatSkillIds[this.getTurn() === Turn.PLAYER ? 0 : 1];
+    if (skillIds) this.skillManager.setMatchSkillIds(skillIds);
+  }
+
+  /**
+   * 所有可动物体进入休眠：运动阶段结束，进入结算
+   */
+  private handleAllBodiesAtRest(): void {
+    if (this.state === GameState.MOVING) {
+      console.log("this.state === GameState.MOVING to SETTLING");
+      this.state = GameState.SETTLING;
+      setTimeout(() => this.eventManager.settleRound(), 100);
+    }
   }
 
-  private handleCollision(type: 'player' | 'enemy', force: number): void {
-    if (force > 50) {
-      console.log(`${type}碰撞，力度: ${force.toFixed(1)}`);
+  private handleCollision(event: ContactEvent): void {
+    if (event.a.type === 'circle' && event.impulse > 50) {
+      const target = event.b ? event.b.id : '边界';
+      console.log(`${event.a.id}碰撞${target}，冲量: ${event.impulse.toFixed(1)}`);
     }
   }
 
@@ -258,45 +285,49 @@ class RetroMarbleGame {
         ...databus.obstacles
       ];
 
-      // 更新物理引擎
+      // 更新物理引擎（固定步长，重力和空气阻力在引擎内按步施加）
       this.physics.update(allBodies, dt);
 
-      // 应用额外的物理效果（重力、空气阻力等）
-      databus.balls.forEach(ball => {
-        if (!ball.isStatic) {
-          ball.vy += databus.gravity * dt;
-          ball.vx *= databus.airResistance;
-          ball.vy *= databus.airResistance;
-        }
-      });
-
-      // 调试：打印当前状态和回合
-      if (Date.now() % 1000 < 50) { // 每1秒打印一次
-        console.log(`[状态] ${GameState[this.state]}, [回合] ${Turn[this.turn]}`);
-      }
-      // 检测是否静止
-      const isMoving = databus.balls.some(ball =>
-        !ball.isStatic && (Math.abs(ball.vx) > 0.1 || Math.abs(ball.vy) > 0.1)
-      );
-      if (this.state === GameState.MOVING && !isMoving) {
-        console.log("this.state === GameState.MOVING to SETTLING");
-        this.state = GameState.SETTLING;
-        setTimeout(() => this.eventManager.settleRound(), 100);
+      if (this.isRaceMode()) {
+        markFinishers(databus.balls, databus.finishLine, this.physics.getSimulationTime()).forEach(ball => {
+          console.log(`${getRacerName(ball, databus.balls)}到达终点，用时 ${(ball.finishTime || 0).toFixed(1)}s`);
+        });
+        this.updateCamera(dt);
       }
     }
 
-    // AI回合逻辑
-    if (this.state === GameState.PLAYING && this.turn === Turn.AI) {
-      this.turnTimer -= dt;
-      if (this.turnTimer <= 0) {
-        this.eventManager.executeAITurn();
-      }
-    }
+    // 双方的击球计时（含 AI 出手），物体全部静止、等待击球时才走表
+    this.eventManager.updateShotClock(dt, this.state === GameState.PLAYING);
 
     // 更新技能系统
+    this.syncSeatSkills();
     this.skillManager.update(dt);
   }
 
+  /**
+   * 竞速镜头跟随：运动中跟最快的弹珠，静止时跟轮到击球的一方
+   */
+  private updateCamera(dt: number): void {
+    const racing = databus.balls.filter(ball => !ball.finished);
+    let target: GameBall | undefined;
+    if (this.state === GameState.MOVING || this.state === GameState.SETTLING) {
+      target = racing.reduce<GameBall | undefined>((fastest, ball) =>
+        !fastest || ball.vx * ball.vx + ball.vy * ball.vy > fastest.vx * fastest.vx + fastest.vy * fastest.vy ? ball : fastest,
+      undefined);
+    } else {
+      target = racing.find(ball => this.getTurn() === Turn.PLAYER ? ball.isPlayer : ball.isEnemy);
+    }
+    if (!target) return;
+
+    const maxY = Math.max(0, databus.mapHeight - databus.config.HEIGHT);
+    const goal = Math.max(0, Math.min(maxY, target.y - databus.config.HEIGHT * 0.4));
+    this.cameraY += (goal - this.cameraY) * Math.min(1, dt * 4);
+  }
+
+  private isRaceMode(): boolean {
+    return getGameMode(databus.getCurrentMap()) === 'race';
+  }
+
   private render(): void {
     try {
       // 清空画布
@@ -306,11 +337,16 @@ class RetroMarbleGame {
       if (this.state === GameState.MENU || this.state === GameState.GAME_OVER) {
         // 菜单状态：只渲染菜单，不渲染游戏场景
         this.menu.render(this.menuState, databus.score);
+      } else if (this.state === GameState.PREVIEW || this.state === GameState.BETTING) {
+        // 赛前：预览地图并下注
+        this.renderGame();
+        this.bettingPanel.render(ctx, databus.config.WIDTH, databus.config.HEIGHT);
       } else {
         // 游戏状态：渲染游戏场景和UI按钮
         this.renderGame();
         this.renderRestartButton();
         this.renderExitButton();
+        this.renderHandover();
       }
 
       // 渲染 Toast 消息（始终在最上层）
@@ -388,62 +424,350 @@ class RetroMarbleGame {
     };
   }
 
+  /**
+   * 在已裁剪的区域内绘制材质纹理，使不同材质一眼可辨
+   */
+  private drawMaterialPattern(material: Material, x: number, y: number, width: number, height: number): void {
+    const step = 12;
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.7)';
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.25)';
+    ctx.lineWidth = 1;
+
+    switch (material.pattern) {
+      case 'streaks': // 冰面：斜向反光条纹
+        ctx.beginPath();
+        for (let offset = -height; offset < width; offset += step * 2) {
+          ctx.moveTo(x + offset, y + height);
+          ctx.lineTo(x + offset + height, y);
+        }
+        ctx.stroke();
+        break;
+      case 'dots': // 沙地：细密颗粒
+      case 'blotches': { // 泥地：大块斑点
+        const size = material.pattern === 'dots' ? 1.5 : 4;
+        const gap = material.pattern === 'dots' ? step / 2 : step * 1.5;
+        for (let py = y + gap / 2, row = 0; py < y + height; py += gap, row++) {
+          for (let px = x + (row % 2) * gap / 2; px < x + width; px += gap) {
+            ctx.beginPath();
+            ctx.arc(px, py, size, 0, Math.PI * 2);
+            ctx.fill();
+          }
+        }
+        break;
+      }
+      case 'rings': { // 弹板：同心环
+        const cx = x + width / 2, cy = y + height / 2;
+        ctx.lineWidth = 2;
+        for (let r = step / 2; r < Math.max(width, height); r += step) {
+          ctx.beginPath();
+          ctx.arc(cx, cy, r, 0, Math.PI * 2);
+          ctx.stroke();
+        }
+        break;
+      }
+      case 'grid': // 粘板：网格
+        ctx.beginPath();
+        for (let px = x; px < x + width; px += step) {
+          ctx.moveTo(px, y);
+          ctx.lineTo(px, y + height);
+        }
+        for (let py = y; py < y + height; py += step) {
+          ctx.moveTo(x, py);
+          ctx.lineTo(x + width, py);
+        }
+        ctx.stroke();
+        break;
+    }
+  }
+
+  /**
+   * 击球计时：轮到的一方弹珠外圈的倒计时环，最后几秒变红
+   */
+  private renderShotClock(): void {
+    if (this.state !== GameState.PLAYING || this.eventManager.getSpanState()) return;
+
+    const ball = GameStateManager.getInstance().getTurnBall();
+    if (!ball) return;
+
+    const remaining = GameStateManager.getInstance().getTurnTimer();
+    const progress = Math.max(0, Math.min(1, remaining / databus.config.TURN_TIME));
+    const radius = ball.radius + 8;
+
+    ctx.save();
+    ctx.lineWidth = 3;
+    ctx.strokeStyle = 'rgba(236, 240, 241, 0.2)';
+    ctx.beginPath();
+    ctx.arc(ball.x, ball.y, radius, 0, Math.PI * 2);
+    ctx.stroke();
+
+    ctx.strokeStyle = remaining <= databus.config.SHOT_CLOCK_WARNING ? '#e74c3c' : '#2ecc71';
+    ctx.beginPath();
+    ctx.arc(ball.x, ball.y, radius, -Math.PI / 2, -Math.PI / 2 + progress * Math.PI * 2);
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  /**
+   * 双人同屏换人提示：盖住场地，点一下屏幕后开始本回合
+   */
+  private renderHandover(): void {
+    const seat = this.eventManager.getHandoverSeat();
+    if (!seat || this.state !== GameState.PLAYING) return;
+
+    ctx.save();
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.75)';
+    ctx.fillRect(0, 0, databus.config.WIDTH, databus.config.HEIGHT);
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = seat.color;
+    ctx.font = 'bold 24px Arial';
+    ctx.fillText(`请把手机交给 ${seat.name}`, databus.config.WIDTH / 2, databus.config.HEIGHT * 0.45);
+    ctx.fillStyle = '#ecf0f1';
+    ctx.font = '16px Arial';
+    ctx.fillText('准备好后点击屏幕开始击球', databus.config.WIDTH / 2, databus.config.HEIGHT * 0.45 + 40);
+    ctx.restore();
+  }
+
+  /**
+   * 一扎测量阶段：提示玩家从己方弹珠拖到对方弹珠，拖拽线在一扎之内为绿色
+   */
+  private renderSpanPhase(): void {
+    const span = this.eventManager.getSpanState();
+    if (!span) return;
+
+    ctx.save();
+    ctx.strokeStyle = 'rgba(52, 152, 219, 0.5)';
+    ctx.lineWidth = 2;
+    ctx.setLineDash([5, 5]);
+    ctx.beginPath();
+    ctx.arc(span.shooter.x, span.shooter.y, databus.handSpan, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    [span.shooter, span.target].forEach(ball => {
+      ctx.strokeStyle = '#f1c40f';
+      ctx.beginPath();
+      ctx.arc(ball.x, ball.y, ball.radius + 6, 0, Math.PI * 2);
+      ctx.stroke();
+    });
+
+    if (span.start && span.end) {
+      const dx = span.end.x - span.start.x;
+      const dy = span.end.y - span.start.y;
+      const length = Math.sqrt(dx * dx + dy * dy);
+      ctx.strokeStyle = length <= databus.handSpan ? '#2ecc71' : '#e74c3c';
+      ctx.lineWidth = 4;
+      ctx.beginPath();
+      ctx.moveTo(span.start.x, span.start.y);
+      ctx.lineTo(span.end.x, span.end.y);
+      ctx.stroke();
+
+      ctx.fillStyle = ctx.strokeStyle;
+      ctx.font = '14px Arial';
+      ctx.textAlign = 'center';
+      ctx.fillText(`${length.toFixed(0)}/${databus.handSpan}`, span.end.x, span.end.y - 16);
+    }
+
+    ctx.fillStyle = '#ecf0f1';
+    ctx.font = '16px Arial';
+    ctx.textAlign = 'center';
+    ctx.fillText('量一扎：从你的弹珠拖到对方弹珠', databus.config.WIDTH / 2, databus.config.HEIGHT * 0.15);
+    ctx.restore();
+  }
+
   private renderGame(): void {
     // 绘制背景
     ctx.fillStyle = databus.config.BACKGROUND_COLOR;
     ctx.fillRect(0, 0, databus.config.WIDTH, databus.config.HEIGHT);
 
-    // 绘制所有物体
+    // 场景按世界坐标绘制，竞速赛道随镜头平移
+    ctx.save();
+    ctx.translate(0, -this.cameraY);
+
+    // 绘制地面材质区域
+    databus.zones.forEach(zone => {
+      const material = MaterialRegistry.getInstance().get(zone.material);
+
+      ctx.save();
+      ctx.beginPath();
+      if (zone.shape === 'circle') {
+        ctx.arc(zone.x, zone.y, zone.radius || 0, 0, Math.PI * 2);
+      } else {
+        ctx.rect(zone.x, zone.y, zone.width || 0, zone.height || 0);
+      }
+      ctx.globalAlpha = 0.45;
+      ctx.fillStyle = material.color;
+      ctx.fill();
+      ctx.clip();
+      ctx.globalAlpha = 0.6;
+      const r = zone.radius || 0;
+      if (zone.shape === 'circle') {
+        this.drawMaterialPattern(material, zone.x - r, zone.y - r, r * 2, r * 2);
+      } else {
+        this.drawMaterialPattern(material, zone.x, zone.y, zone.width || 0, zone.height || 0);
+      }
+      ctx.restore();
+    });
+
+    this.renderBoundary();
+    this.renderForceFields();
+    this.renderHoles();
+    this.renderFinishLine();
+
+    // 绘制所有物体（洞口已在底层绘制）
     [...databus.balls, ...databus.obstacles].forEach(body => {
+      if (body.type === 'hole') return;
       ctx.save();
 
       ctx.fillStyle = body.color;
       ctx.strokeStyle = '#ecf0f1';
       ctx.lineWidth = 2;
 
+      // 打开的闸门和出界的弹珠半透明显示
+      if (body.isDisabled) {
+        ctx.globalAlpha = 0.25;
+      }
+
       if (body.type === 'circle') {
         const ball = body as GameBall;
+        // 在两个固定步之间插值，避免低帧率下抖动
+        const pos = this.physics.getInterpolatedPosition(ball);
 
         ctx.beginPath();
-        ctx.arc(ball.x, ball.y, ball.radius, 0, Math.PI * 2);
+        ctx.arc(pos.x, pos.y, ball.radius, 0, Math.PI * 2);
         ctx.fill();
         ctx.stroke();
 
         // 圆形高光
         ctx.beginPath();
         ctx.arc(
-          ball.x - ball.radius * 0.3,
-          ball.y - ball.radius * 0.3,
+          pos.x - ball.radius * 0.3,
+          pos.y - ball.radius * 0.3,
           ball.radius * 0.4,
           0, Math.PI * 2
         );
         ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
         ctx.fill();
 
+        // 旋转标记：随侧旋转动的短线
+        if (ball.angularVelocity) {
+          const angle = ball.angle || 0;
+          ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+          ctx.beginPath();
+          ctx.moveTo(pos.x, pos.y);
+          ctx.lineTo(pos.x + Math.cos(angle) * ball.radius, pos.y + Math.sin(angle) * ball.radius);
+          ctx.stroke();
+        }
+
         // 如果已下注，显示特殊标记
         if (ball.hasBet) {
           ctx.fillStyle = '#f1c40f';
           ctx.beginPath();
-          ctx.arc(ball.x, ball.y, ball.radius * 0.6, 0, Math.PI * 2);
+          ctx.arc(pos.x, pos.y, ball.radius * 0.6, 0, Math.PI * 2);
           ctx.fill();
         }
       } else if (body.type === 'rectangle') {
         const obstacle = body as GameObstacle;
 
-        ctx.fillRect(obstacle.x, obstacle.y, obstacle.width, obstacle.height);
-        ctx.strokeRect(obstacle.x, obstacle.y, obstacle.width, obstacle.height);
+        if (obstacle.angle) {
+          // 旋转矩形绕中心绘制
+          ctx.translate(obstacle.x + obstacle.width / 2, obstacle.y + obstacle.height / 2);
+          ctx.rotate(obstacle.angle);
+          ctx.fillRect(-obstacle.width / 2, -obstacle.height / 2, obstacle.width, obstacle.height);
+          ctx.strokeRect(-obstacle.width / 2, -obstacle.height / 2, obstacle.width, obstacle.height);
+        } else {
+          const pos = this.physics.getInterpolatedPosition(obstacle);
+          ctx.fillRect(pos.x, pos.y, obstacle.width, obstacle.height);
+          ctx.strokeRect(pos.x, pos.y, obstacle.width, obstacle.height);
+
+          // 可推动的木箱画上交叉木条
+          if (!obstacle.isStatic) {
+            ctx.beginPath();
+            ctx.moveTo(pos.x, pos.y);
+            ctx.lineTo(pos.x + obstacle.width, pos.y + obstacle.height);
+            ctx.moveTo(pos.x + obstacle.width, pos.y);
+            ctx.lineTo(pos.x, pos.y + obstacle.height);
+            ctx.stroke();
+          }
+        }
+      } else if (body.type === 'polygon') {
+        const vertices = this.physics.getWorldVertices(body);
+
+        ctx.beginPath();
+        vertices.forEach((v, index) => {
+          if (index === 0) ctx.moveTo(v.x, v.y);
+          else ctx.lineTo(v.x, v.y);
+        });
+        ctx.closePath();
+        ctx.fill();
+        ctx.stroke();
+      } else if (body.type === 'segment') {
+        const wall = body as GameObstacle;
+        const thickness = (wall.radius || 0) * 2;
+
+        // 先画描边再画填充，得到带轮廓的圆头墙体
+        ctx.lineCap = 'round';
+        ctx.beginPath();
+        ctx.moveTo(wall.x, wall.y);
+        ctx.lineTo(wall.x2 as number, wall.y2 as number);
+        ctx.lineWidth = thickness + 4;
+        ctx.stroke();
+        ctx.strokeStyle = wall.color;
+        ctx.lineWidth = thickness;
+        ctx.stroke();
       }
 
       ctx.restore();
+
+      // 带材质的矩形和多边形叠加材质纹理
+      const material = (body as GameObstacle).material;
+      if (material && (body.type === 'rectangle' || body.type === 'polygon')) {
+        const vertices = this.physics.getWorldVertices(body);
+        const box = this.physics.getBodyAABB(body);
+
+        ctx.save();
+        ctx.beginPath();
+        vertices.forEach((v, index) => {
+          if (index === 0) ctx.moveTo(v.x, v.y);
+          else ctx.lineTo(v.x, v.y);
+        });
+        ctx.closePath();
+        ctx.clip();
+        this.drawMaterialPattern(MaterialRegistry.getInstance().get(material),
+          box.minX, box.minY, box.maxX - box.minX, box.maxY - box.minY);
+        ctx.restore();
+      }
     });
 
+    // 绘制"一扎"范围
+    if (this.state === GameState.SETTLING) {
+      const player = GameStateManager.getInstance().getPlayerBall();
+      if (player) {
+        ctx.strokeStyle = 'rgba(52, 152, 219, 0.5)';
+        ctx.lineWidth = 2;
+        ctx.setLineDash([5, 5]);
+        ctx.beginPath();
+        ctx.arc(player.x, player.y, databus.handSpan, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.setLineDash([]);
+      }
+    }
+
+    this.renderShotClock();
+
+    // 渲染技能效果
+    this.skillManager.render(ctx);
+    ctx.restore();
+
     // 绘制拖拽线（从事件管理器获取拖拽状态）
     const dragState = this.eventManager.getDragState();
     if (dragState.isDragging && dragState.dragStart && dragState.dragEnd) {
       const dx = dragState.dragStart.x - dragState.dragEnd.x;
       const dy = dragState.dragStart.y - dragState.dragEnd.y;
       const dist = Math.sqrt(dx * dx + dy * dy);
-      const power = Math.min(dist, 200) / 200;
+      const player = GameStateManager.getInstance().getTurnBall();
+      const shot = computeShot(dx, dy, dist, dragState.english, databus.getShotLimits(player));
+      const power = shot.power;
 
       // 绘制瞄准辅助线
       ctx.strokeStyle = '#2ecc71';
@@ -455,15 +779,13 @@ class RetroMarbleGame {
       ctx.stroke();
       ctx.setLineDash([]);
 
-      // 绘制预测轨迹点
-      const trajectoryPoints = this.calculateTrajectory(dragState.dragStart, { x: dx, y: dy }, power * 500);
-      trajectoryPoints.forEach((point, index) => {
-        const alpha = 1 - (index / trajectoryPoints.length) * 0.7;
-        ctx.fillStyle = `rgba(46, 204, 113, ${alpha})`;
-        ctx.beginPath();
-        ctx.arc(point.x, point.y, 3, 0, Math.PI * 2);
-        ctx.fill();
-      });
+      // 绘制预测轨迹（真实物理试算，世界坐标）
+      if (player && power > 0) {
+        ctx.save();
+        ctx.translate(0, -this.cameraY);
+        this.renderTrajectoryPreview(this.getTrajectoryPreview(player, shot), player.radius);
+        ctx.restore();
+      }
 
       // 绘制力量指示器
       const powerBarX = databus.config.WIDTH - 50;
@@ -489,6 +811,13 @@ class RetroMarbleGame {
       ctx.textAlign = 'center';
       ctx.fillText(`${Math.round(power * 100)}%`, powerBarX + 10, powerBarY - 10);
 
+      // 加塞提示
+      if (dragState.english !== 0) {
+        const side = dragState.english > 0 ? '右' : '左';
+        ctx.fillText(`加塞${side} ${Math.round(Math.abs(dragState.english) * 100)}%`,
+          powerBarX + 10, powerBarY + powerBarHeight + 20);
+      }
+
       // 绘制发射点
       ctx.fillStyle = `rgb(${Math.floor(power * 255)}, ${Math.floor((1 - power) * 255)}, 0)`;
       ctx.beginPath();
@@ -496,22 +825,12 @@ class RetroMarbleGame {
       ctx.fill();
     }
 
-    // 绘制"一扎"范围
-    if (this.state === GameState.SETTLING) {
-      const player = databus.getPlayerBall();
-      if (player) {
-        ctx.strokeStyle = 'rgba(52, 152, 219, 0.5)';
-        ctx.lineWidth = 2;
-        ctx.setLineDash([5, 5]);
-        ctx.beginPath();
-        ctx.arc(player.x, player.y, databus.handSpan, 0, Math.PI * 2);
-        ctx.stroke();
-        ctx.setLineDash([]);
-      }
-    }
+    this.renderSpanPhase();
 
-    // 渲染技能效果
-    this.skillManager.render(ctx);
+    // 物理调试层
+    this.debugOverlay.render(ctx, databus.balls, databus.obstacles, databus.handSpan, [
+      `[状态] ${GameState[this.state]}  [回合] ${Turn[this.getTurn()]}`
+    ], this.cameraY);
 
     // 绘制UI - 只在游戏进行中显示
     if (this.state !== GameState.MENU && this.state !== GameState.GAME_OVER) {
@@ -526,8 +845,8 @@ class RetroMarbleGame {
       ctx.fillText(`等级: ${databus.playerGrade}`, infoConfig.x, UIAdapter.getInfoLineY(0));
       ctx.fillText(`经验: ${databus.playerExp}/100`, infoConfig.x, UIAdapter.getInfoLineY(1));
       ctx.fillText(`积分: ${databus.score}`, infoConfig.x, UIAdapter.getInfoLineY(2));
-      ctx.fillText(`回合: ${this.turn === Turn.PLAYER ? '玩家' : 'AI'}`, infoConfig.x, UIAdapter.getInfoLineY(3));
-      ctx.fillText(`时间: ${Math.max(0, this.turnTimer).toFixed(1)}s`, infoConfig.x, UIAdapter.getInfoLineY(4));
+      ctx.fillText(`回合: ${this.getTurnLabel()}`, infoConfig.x, UIAdapter.getInfoLineY(3));
+      ctx.fillText(`时间: ${GameStateManager.getInstance().getTurnTimer().toFixed(1)}s`, infoConfig.x, UIAdapter.getInfoLineY(4));
 
       // 显示下注金额
       if (databus.betAmount > 0) {
@@ -537,11 +856,221 @@ class RetroMarbleGame {
       // 显示一扎距离
       ctx.fillText(`一扎: ${databus.handSpan}px`, infoConfig.x, UIAdapter.getInfoLineY(6));
 
+      // 显示地图；倾斜棋盘附带倾斜方向箭头
+      const map = databus.getCurrentMap();
+      const boundaryLabel = getGameMode(map) === 'ring' ? '' : BOUNDARY_LABELS[getMapBoundary(map).mode];
+      ctx.fillText(`地图: ${map.name}${boundaryLabel}`, infoConfig.x, UIAdapter.getInfoLineY(7));
+      if (map.physics.type === 'tilted') {
+        const gravity = getProfileGravity(map.physics);
+        const length = Math.sqrt(gravity.x * gravity.x + gravity.y * gravity.y) || 1;
+        const arrowX = infoConfig.x + 90, arrowY = UIAdapter.getInfoLineY(7) - 4;
+        const tipX = arrowX + gravity.x / length * 10, tipY = arrowY + gravity.y / length * 10;
+        ctx.strokeStyle = '#ecf0f1';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(arrowX - gravity.x / length * 10, arrowY - gravity.y / length * 10);
+        ctx.lineTo(tipX, tipY);
+        ctx.stroke();
+        ctx.beginPath();
+        ctx.arc(tipX, tipY, 3, 0, Math.PI * 2);
+        ctx.fill();
+      }
+
+      // 打洞玩法显示本局进洞得分
+      if (getGameMode(map) === 'hole') {
+        const { player, enemy } = databus.pocketScores;
+        ctx.fillText(`进洞: ${player} : ${enemy} / ${databus.config.HOLE_TARGET_SCORE}`, infoConfig.x, UIAdapter.getInfoLineY(8));
+      }
+
+      // 多颗弹珠时显示双方剩余的弹珠数
+      const playerCount = databus.balls.filter(ball => ball.isPlayer).length;
+      const enemyCount = databus.balls.length - playerCount;
+      if (!this.isRaceMode() && (playerCount > 1 || enemyCount > 1)) {
+        ctx.fillText(`弹珠: ${playerCount} : ${enemyCount}`, infoConfig.x, UIAdapter.getInfoLineY(9));
+      }
+
+      // 竞速显示到达人数和各弹珠的进度
+      if (this.isRaceMode()) {
+        const finished = databus.balls.filter(ball => ball.finished).length;
+        ctx.fillText(`到达: ${finished}/${databus.balls.length}`, infoConfig.x, UIAdapter.getInfoLineY(8));
+        this.renderRaceProgress();
+      }
+
       // 绘制技能按钮
       this.renderSkillButtons();
     }
   }
 
+  /**
+   * HUD 上轮到的一方：双人同屏显示名字
+   */
+  private getTurnLabel(): string {
+    const turn = this.getTurn();
+    if (databus.hotSeat) return databus.hotSeat[turn === Turn.PLAYER ? 0 : 1].name;
+    return turn === Turn.PLAYER ? '玩家' : 'AI';
+  }
+
+  // 按地图的边界规则绘制场地边缘：出界淘汰为红色，绕回为虚线，开放边缘为草色
+  private renderBoundary(): void {
+    const ring = this.physics.getBoundaryRing();
+    if (ring) {
+      this.renderRing(ring.x, ring.y, ring.radius);
+      return;
+    }
+
+    const mode = getMapBoundary(databus.getCurrentMap()).mode;
+    if (mode === 'reflect') return;
+
+    const { WIDTH, HEIGHT } = databus.config;
+    ctx.save();
+    ctx.lineWidth = 4;
+    if (mode === 'lethal') {
+      ctx.strokeStyle = '#e74c3c';
+    } else if (mode === 'wrap') {
+      ctx.strokeStyle = 'rgba(52, 152, 219, 0.8)';
+      ctx.setLineDash([12, 8]);
+    } else {
+      ctx.strokeStyle = 'rgba(39, 174, 96, 0.8)';
+    }
+    ctx.strokeRect(2, 2, WIDTH - 4, HEIGHT - 4);
+    ctx.restore();
+  }
+
+  // 力场：风带画随时间流动的箭头，吸引/排斥点画同心圆（蓝吸红推），旋涡画转动的弧线
+  private renderForceFields(): void {
+    const time = this.physics.getSimulationTime();
+
+    databus.fields.forEach(field => {
+      ctx.save();
+      ctx.lineWidth = 2;
+
+      if (field.type === 'wind') {
+        ctx.fillStyle = 'rgba(174, 214, 241, 0.12)';
+        ctx.fillRect(field.x, field.y, field.width, field.height);
+
+        const length = Math.sqrt(field.ax * field.ax + field.ay * field.ay) || 1;
+        const ux = field.ax / length, uy = field.ay / length;
+        const spacing = 40;
+        const offset = (time * 40) % spacing;
+        ctx.strokeStyle = 'rgba(174, 214, 241, 0.5)';
+        ctx.beginPath();
+        ctx.rect(field.x, field.y, field.width, field.height);
+        ctx.clip();
+        for (let gx = field.x - spacing; gx < field.x + field.width + spacing; gx += spacing) {
+          for (let gy = field.y + spacing / 2; gy < field.y + field.height; gy += spacing) {
+            const cx = gx + ux * offset, cy = gy + uy * offset;
+            // 箭头尖朝向风向
+            ctx.beginPath();
+            ctx.moveTo(cx - ux * 6 - uy * 6, cy - uy * 6 + ux * 6);
+            ctx.lineTo(cx, cy);
+            ctx.lineTo(cx - ux * 6 + uy * 6, cy - uy * 6 - ux * 6);
+            ctx.stroke();
+          }
+        }
+      } else if (field.type === 'point') {
+        ctx.strokeStyle = field.strength >= 0 ? 'rgba(52, 152, 219, 0.6)' : 'rgba(231, 76, 60, 0.6)';
+        for (let ring = 1; ring <= 3; ring++) {
+          ctx.beginPath();
+          ctx.arc(field.x, field.y, field.radius * ring / 3, 0, Math.PI * 2);
+          ctx.stroke();
+        }
+      } else {
+        ctx.strokeStyle = 'rgba(155, 89, 182, 0.6)';
+        const spin = time * (field.strength >= 0 ? 1 : -1) * 2;
+        for (let arm = 0; arm < 3; arm++) {
+          const start = spin + arm * Math.PI * 2 / 3;
+          ctx.beginPath();
+          ctx.arc(field.x, field.y, field.radius * (0.4 + arm * 0.2), start, start + Math.PI / 2);
+          ctx.stroke();
+        }
+      }
+
+      ctx.restore();
+    });
+  }
+
+  // 洞口：深色圆洞加浅色洞沿，旁边标出分值
+  private renderHoles(): void {
+    databus.obstacles.forEach(hole => {
+      if (hole.type !== 'hole') return;
+      const radius = hole.radius || 0;
+
+      ctx.save();
+      ctx.beginPath();
+      ctx.arc(hole.x, hole.y, radius, 0, Math.PI * 2);
+      ctx.fillStyle = hole.color;
+      ctx.fill();
+      ctx.strokeStyle = 'rgba(236, 240, 241, 0.5)';
+      ctx.lineWidth = 3;
+      ctx.stroke();
+
+      ctx.fillStyle = '#f1c40f';
+      ctx.font = '12px Arial';
+      ctx.textAlign = 'center';
+      ctx.fillText(`${hole.points || 0}分`, hole.x, hole.y - radius - 6);
+      ctx.restore();
+    });
+  }
+
+  // 竞速终点线：黑白格横条
+  private renderFinishLine(): void {
+    if (!this.isRaceMode()) return;
+    const line = databus.finishLine;
+    const cell = line.height;
+
+    ctx.save();
+    for (let x = line.x, column = 0; x < line.x + line.width; x += cell, column++) {
+      for (let row = 0; row < 2; row++) {
+        ctx.fillStyle = (column + row) % 2 === 0 ? '#ecf0f1' : '#111820';
+        ctx.fillRect(x, line.y + row * cell / 2, cell, cell / 2);
+      }
+    }
+    ctx.fillStyle = '#f1c40f';
+    ctx.font = 'bold 14px Arial';
+    ctx.textAlign = 'right';
+    ctx.fillText('终点', line.x + line.width - 10, line.y - 8);
+    ctx.restore();
+  }
+
+  // 竞速进度条：屏幕右侧一条竖线，按弹珠颜色标出各自在赛道上的位置
+  private renderRaceProgress(): void {
+    const top = 120;
+    const height = databus.config.HEIGHT - 260;
+    const x = databus.config.WIDTH - 16;
+    const length = databus.finishLine.y || 1;
+
+    ctx.save();
+    ctx.strokeStyle = 'rgba(236, 240, 241, 0.4)';
+    ctx.lineWidth = 4;
+    ctx.beginPath();
+    ctx.moveTo(x, top);
+    ctx.lineTo(x, top + height);
+    ctx.stroke();
+
+    databus.balls.forEach(ball => {
+      const progress = Math.max(0, Math.min(1, ball.y / length));
+      ctx.fillStyle = ball.color;
+      ctx.beginPath();
+      ctx.arc(x, top + progress * height, ball.isPlayer ? 7 : 5, 0, Math.PI * 2);
+      ctx.fill();
+    });
+    ctx.restore();
+  }
+
+  // 出圈场地：地面上的粉笔圆圈
+  private renderRing(x: number, y: number, radius: number): void {
+    ctx.save();
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.fillStyle = 'rgba(236, 240, 241, 0.06)';
+    ctx.fill();
+    ctx.strokeStyle = 'rgba(236, 240, 241, 0.85)';
+    ctx.lineWidth = 5;
+    ctx.setLineDash([18, 4]);
+    ctx.stroke();
+    ctx.restore();
+  }
+
   // 赛前被动技能标签渲染
   private renderSkillButtons(): void {
     const skillButtonHeight = 44;
@@ -587,44 +1116,75 @@ class RetroMarbleGame {
   }
 
   /**
-   * 计算弹珠预测轨迹
+   * 获取击球预览；拖拽未变化时复用上一帧的结果
    */
-  private calculateTrajectory(startPos: { x: number; y: number }, velocity: { x: number; y: number }, force: number): { x: number; y: number }[] {
-    const points: { x: number; y: number }[] = [];
-    const maxPoints = 20;
-    const dt = 0.016; // 60fps
-    let x = startPos.x;
-    let y = startPos.y;
-    let vx = velocity.x * force * 0.001;
-    let vy = velocity.y * force * 0.001;
+  private getTrajectoryPreview(player: GameBall, shot: { vx: number; vy: number; spin: number; power: number }): TrajectoryPreview {
+    const limits = getPreviewLimits(this.menu.getSetting('difficulty'), !!this.menu.getSetting('aim_assist'));
+    // 只按击球输入缓存；有运动学障碍物时再按 0.1 秒取整的模拟时间刷新，跟上障碍物的位置
+    const inputs = [player.x, player.y, shot.vx, shot.vy, shot.spin, limits.maxSteps];
+    if (databus.obstacles.some(obstacle => obstacle.isKinematic)) {
+      inputs.push(this.physics.getSimulationTime() * 10);
+    }
+    const key = inputs.map(value => Math.round(value)).join(',');
+
+    if (!this.previewCache || this.previewCache.key !== key) {
+      // 目标为对方的弹珠（双人同屏时第二位击球的目标是玩家一方）
+      const enemy = player.isPlayer ? databus.getEnemyBall() : databus.getPlayerBall();
+      const bodies: PhysicsBody[] = [...databus.balls, ...databus.obstacles];
+      const preview = predictShot(this.physics, bodies, player.id, enemy ? enemy.id : '', shot, limits);
+      this.previewCache = { key, preview };
+    }
 
-    for (let i = 0; i < maxPoints; i++) {
-      // 应用重力
-      vy += databus.gravity * dt;
-      // 应用空气阻力
-      vx *= databus.airResistance;
-      vy *= databus.airResistance;
-      
-      // 更新位置
-      x += vx * dt * 60;
-      y += vy * dt * 60;
-      
-      // 添加到轨迹点
-      points.push({ x, y });
-      
-      // 检查边界碰撞
-      if (x < 0 || x > databus.config.WIDTH || y < 0 || y > databus.config.HEIGHT) {
-        break;
-      }
+    return this.previewCache.preview;
+  }
+
+  private renderTrajectoryPreview(preview: TrajectoryPreview, radius: number): void {
+    ctx.save();
+
+    // 路径点
+    preview.points.forEach((point, index) => {
+      const alpha = 1 - (index / preview.points.length) * 0.7;
+      ctx.fillStyle = `rgba(46, 204, 113, ${alpha})`;
+      ctx.beginPath();
+      ctx.arc(point.x, point.y, 3, 0, Math.PI * 2);
+      ctx.fill();
+    });
+
+    // 反弹点
+    ctx.strokeStyle = '#f1c40f';
+    ctx.lineWidth = 2;
+    preview.bounces.forEach(point => {
+      ctx.beginPath();
+      ctx.arc(point.x, point.y, 5, 0, Math.PI * 2);
+      ctx.stroke();
+    });
+
+    // 首次碰到对手时弹珠的位置
+    if (preview.firstTargetContact) {
+      ctx.strokeStyle = '#e74c3c';
+      ctx.beginPath();
+      ctx.arc(preview.firstTargetContact.x, preview.firstTargetContact.y, radius, 0, Math.PI * 2);
+      ctx.stroke();
     }
-    
-    return points;
+
+    // 预测停止点
+    if (preview.restPoint) {
+      ctx.strokeStyle = 'rgba(236, 240, 241, 0.8)';
+      ctx.setLineDash([4, 4]);
+      ctx.beginPath();
+      ctx.arc(preview.restPoint.x, preview.restPoint.y, radius, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
+    ctx.restore();
   }
 
   private lastTime: number = 0;
   private gameLoop = (): void => {
     const current = Date.now();
-    const dt = (current - this.lastTime) / 1000 || 0.016;
+    // 首帧或切后台回来时 lastTime 无效，限制单帧最长 0.25 秒
+    const dt = this.lastTime > 0 ? Math.min((current - this.lastTime) / 1000, 0.25) : 0.016;
     this.lastTime = current;
 
     this.update(dt);
@@ -686,21 +1246,21 @@ class RetroMarbleGame {
    * 获取当前回合
    */
   public getTurn(): Turn {
-    return this.turn;
+    return GameStateManager.getInstance().getTurn();
   }
 
   /**
    * 切换回合
    */
   public switchTurn(): void {
-    this.turn = this.turn === Turn.PLAYER ? Turn.AI : Turn.PLAYER;
+    GameStateManager.getInstance().switchTurn();
   }
 
   /**
    * 重置回合计时器
    */
   public resetTurnTimer(): void {
-    this.turnTimer = databus.config.TURN_TIME;
+    GameStateManager.getInstance().resetTurnTimer();
   }
 
   /**
@@ -749,14 +1309,98 @@ class RetroMarbleGame {
     return this.skillButtonRects || [];
   }
 
+  /**
+   * 从主菜单开局：生成对局后先进入地图预览
+   */
+  public startPreview(): void {
+    this.resetGame();
+    GameStateManager.getInstance().setGameState(GameState.PREVIEW);
+    databus.gameState = GameSubState.PREVIEW;
+    this.menuState = MenuState.NONE;
+    this.state = GameState.PREVIEW;
+
+    // 双人同屏不下注，直接开局
+    if (databus.hotSeat) {
+      this.startMatch(0, 1);
+      return;
+    }
+
+    const player = databus.getPlayerBall();
+    const enemy = databus.getEnemyBall();
+    const difficulty = this.menu.getSetting('difficulty');
+    if (this.isRaceMode()) {
+      // 竞速押哪颗弹珠跑第一，默认押自己的
+      this.bettingPanel.open(databus.getCurrentMap().name, getRaceOdds(difficulty, databus.balls.length), databus.score);
+      this.updateRaceBetHint();
+      return;
+    }
+    const odds = player && enemy ? getBetOdds(difficulty, player, enemy) : 1;
+    this.bettingPanel.open(databus.getCurrentMap().name, odds, databus.score);
+  }
+
+  /**
+   * 预览/下注阶段的触摸交给面板；竞速下注阶段点赛道上的弹珠选择押注对象
+   */
+  public handleBettingTouch(type: 'start' | 'move' | 'end', x: number, y: number): boolean {
+    if (this.bettingPanel.handleTouch(type, x, y)) return true;
+    if (type !== 'start' || this.state !== GameState.BETTING || !this.isRaceMode()) return false;
+
+    const worldY = y + this.cameraY;
+    const ball = databus.balls.find(item => {
+      const dx = item.x - x;
+      const dy = item.y - worldY;
+      return dx * dx + dy * dy <= (item.radius + 10) * (item.radius + 10);
+    });
+    if (!ball) return false;
+
+    databus.selectBall(ball.id);
+    this.updateRaceBetHint();
+    return true;
+  }
+
+  private updateRaceBetHint(): void {
+    const ball = databus.selectedBall;
+    this.bettingPanel.setHint(`点选赛道上的弹珠，押它跑第一：${ball ? getRacerName(ball, databus.balls) : '未选择'}`);
+  }
+
+  private enterBetting(): void {
+    GameStateManager.getInstance().setGameState(GameState.BETTING);
+    databus.gameState = GameSubState.BETTING;
+    this.state = GameState.BETTING;
+    this.bettingPanel.showBetting();
+  }
+
+  /**
+   * 结束预览/下注，正式开局
+   * @param stake 下注积分，0 为不下注
+   */
+  private startMatch(stake: number, odds: number): void {
+    // 默认押自己的弹珠，竞速可在下注阶段改押其他弹珠
+    if (stake > 0) {
+      if (!databus.selectedBall) databus.selectBall('player');
+      databus.placeBet(stake, odds);
+    }
+    GameStateManager.getInstance().setGameState(GameState.PLAYING);
+    databus.gameState = GameSubState.RUNNING;
+    this.state = GameState.PLAYING;
+  }
+
+  /**
+   * 切换物理调试层
+   */
+  public toggleDebugOverlay(): void {
+    const enabled = this.debugOverlay.toggle();
+    console.log(`物理调试层: ${enabled ? '开启' : '关闭'}`);
+  }
+
   // 添加技能激活方法
   public activateSkill(skillId: string): boolean {
-    if (this.turn !== Turn.PLAYER || this.state !== GameState.PLAYING) {
+    if (!GameStateManager.getInstance().isHumanTurn() || this.state !== GameState.PLAYING) {
       console.log('只能在玩家回合且游戏进行中使用技能');
       return false;
     }
 
-    const playerBall = databus.getPlayerBall();
+    const playerBall = GameStateManager.getInstance().getTurnBall();
     if (!playerBall) {
       console.log('找不到玩家弹珠');
       return false;
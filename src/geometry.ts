@@ -0,0 +1,277 @@
+// src/geometry.ts
+/**
+ * 几何工具
+ * 提供扫掠圆（连续碰撞检测）所需的求交计算，全部为纯函数
+ */
+
+import { Vector } from './physics';
+
+// 扫掠命中结果：t 为位移比例 [0, 1]，(nx, ny) 为指向运动圆一侧的接触法线
+export interface SweepHit {
+  t: number;
+  nx: number;
+  ny: number;
+}
+
+/**
+ * 线段上距离点 p 最近的点
+ */
+export function closestPointOnSegment(p: Vector, a: Vector, b: Vector): Vector {
+  const abx = b.x - a.x, aby = b.y - a.y;
+  const lenSq = abx * abx + aby * aby;
+  if (lenSq === 0) return { x: a.x, y: a.y };
+
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * abx + (p.y - a.y) * aby) / lenSq));
+  return { x: a.x + abx * t, y: a.y + aby * t };
+}
+
+/**
+ * 圆心从 p 沿位移 d 运动，求首次与以 c 为圆心、半径 r 的圆相切的时刻
+ * 起点已重叠或正在远离时返回 null（交给离散检测处理）
+ */
+export function sweepCircleCircle(p: Vector, d: Vector, c: Vector, r: number): SweepHit | null {
+  const mx = p.x - c.x, my = p.y - c.y;
+  const a = d.x * d.x + d.y * d.y;
+  const b = mx * d.x + my * d.y;
+  const cc = mx * mx + my * my - r * r;
+
+  if (a === 0 || cc < 0 || b >= 0) return null;
+
+  const disc = b * b - a * cc;
+  if (disc < 0) return null;
+
+  const t = (-b - Math.sqrt(disc)) / a;
+  if (t < 0 || t > 1) return null;
+
+  const hx = mx + d.x * t, hy = my + d.y * t;
+  const len = Math.sqrt(hx * hx + hy * hy) || 1;
+  return { t, nx: hx / len, ny: hy / len };
+}
+
+/**
+ * 圆心沿 d 扫掠，与线段 ab 膨胀 r 后的胶囊体求首次接触
+ */
+export function sweepCircleSegment(p: Vector, d: Vector, a: Vector, b: Vector, r: number): SweepHit | null {
+  let best: SweepHit | null = null;
+
+  const ex = b.x - a.x, ey = b.y - a.y;
+  const len = Math.sqrt(ex * ex + ey * ey);
+
+  if (len > 0) {
+    // 朝向起点一侧的边法线
+    let nx = -ey / len, ny = ex / len;
+    if ((p.x - a.x) * nx + (p.y - a.y) * ny < 0) {
+      nx = -nx; ny = -ny;
+    }
+
+    const dist = (p.x - a.x) * nx + (p.y - a.y) * ny;
+    const approach = d.x * nx + d.y * ny;
+
+    if (dist >= r && approach < 0) {
+      const t = (r - dist) / approach;
+      if (t >= 0 && t <= 1) {
+        const hx = p.x + d.x * t - a.x, hy = p.y + d.y * t - a.y;
+        const along = (hx * ex + hy * ey) / (len * len);
+        if (along >= 0 && along <= 1) {
+          best = { t, nx, ny };
+        }
+      }
+    }
+  }
+
+  // 两端圆角
+  [a, b].forEach(end => {
+    const hit = sweepCircleCircle(p, d, end, r);
+    if (hit && (!best || hit.t < best.t)) best = hit;
+  });
+
+  return best;
+}
+
+/**
+ * 圆（半径 r）扫掠轴对齐矩形
+ */
+export function sweepCircleRect(
+  p: Vector, d: Vector, r: number,
+  rect: { x: number; y: number; width: number; height: number }
+): SweepHit | null {
+  const corners: Vector[] = [
+    { x: rect.x, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y },
+    { x: rect.x + rect.width, y: rect.y + rect.height },
+    { x: rect.x, y: rect.y + rect.height }
+  ];
+  return sweepCircleEdges(p, d, r, corners);
+}
+
+/**
+ * 圆扫掠闭合多边形的各条边（凸多边形的闵可夫斯基和）
+ */
+export function sweepCircleEdges(p: Vector, d: Vector, r: number, vertices: Vector[]): SweepHit | null {
+  let best: SweepHit | null = null;
+  for (let i = 0; i < vertices.length; i++) {
+    const hit = sweepCircleSegment(p, d, vertices[i], vertices[(i + 1) % vertices.length], r);
+    if (hit && (!best || hit.t < best.t)) best = hit;
+  }
+  return best;
+}
+
+// 离散接触结果：(nx, ny) 从形状指向圆心，depth 为穿透深度
+export interface Contact {
+  nx: number;
+  ny: number;
+  depth: number;
+}
+
+/**
+ * 将局部顶点按 angle 旋转后平移到 (x, y)
+ */
+export function transformVertices(vertices: Vector[], x: number, y: number, angle: number): Vector[] {
+  const cos = Math.cos(angle), sin = Math.sin(angle);
+  return vertices.map(v => ({
+    x: x + v.x * cos - v.y * sin,
+    y: y + v.x * sin + v.y * cos
+  }));
+}
+
+/**
+ * 旋转矩形（左上角 x, y，绕中心旋转 angle）的四个世界坐标顶点
+ */
+export function getRectVertices(x: number, y: number, width: number, height: number, angle: number): Vector[] {
+  const hw = width / 2, hh = height / 2;
+  return transformVertices([
+    { x: -hw, y: -hh },
+    { x: hw, y: -hh },
+    { x: hw, y: hh },
+    { x: -hw, y: hh }
+  ], x + hw, y + hh, angle);
+}
+
+/**
+ * 圆与凸多边形的接触（顶点顺序任意）
+ */
+export function circleVsPolygon(center: Vector, r: number, vertices: Vector[]): Contact | null {
+  let inside = true;
+  let sign = 0;
+  let bestDistSq = Infinity;
+  let closest: Vector = center;
+  let nearestEdgeNormal: Vector = { x: 0, y: -1 };
+  let nearestEdgeDist = Infinity;
+
+  for (let i = 0; i < vertices.length; i++) {
+    const a = vertices[i], b = vertices[(i + 1) % vertices.length];
+    const cross = (b.x - a.x) * (center.y - a.y) - (b.y - a.y) * (center.x - a.x);
+    if (cross !== 0) {
+      if (sign === 0) sign = cross > 0 ? 1 : -1;
+      else if ((cross > 0 ? 1 : -1) !== sign) inside = false;
+    }
+
+    const q = closestPointOnSegment(center, a, b);
+    const dx = center.x - q.x, dy = center.y - q.y;
+    const distSq = dx * dx + dy * dy;
+    if (distSq < bestDistSq) {
+      bestDistSq = distSq;
+      closest = q;
+    }
+
+    // 记录离圆心最近的边及其外法线，用于圆心已进入多边形的情况
+    const ex = b.x - a.x, ey = b.y - a.y;
+    const len = Math.sqrt(ex * ex + ey * ey) || 1;
+    const edgeDist = Math.sqrt(distSq);
+    if (edgeDist < nearestEdgeDist) {
+      nearestEdgeDist = edgeDist;
+      nearestEdgeNormal = { x: ey / len, y: -ex / len };
+    }
+  }
+
+  if (inside && sign !== 0) {
+    // (ey, -ex) 在 sign > 0 时朝外，反之需要翻转
+    const flip = sign > 0 ? 1 : -1;
+    return {
+      nx: nearestEdgeNormal.x * flip,
+      ny: nearestEdgeNormal.y * flip,
+      depth: r + nearestEdgeDist
+    };
+  }
+
+  if (bestDistSq >= r * r || bestDistSq === 0) return null;
+
+  const dist = Math.sqrt(bestDistSq);
+  return {
+    nx: (center.x - closest.x) / dist,
+    ny: (center.y - closest.y) / dist,
+    depth: r - dist
+  };
+}
+
+/**
+ * 圆与胶囊体（线段 ab，半厚度 thickness）的接触
+ */
+export function circleVsSegment(center: Vector, r: number, a: Vector, b: Vector, thickness: number): Contact | null {
+  const q = closestPointOnSegment(center, a, b);
+  const dx = center.x - q.x, dy = center.y - q.y;
+  const distSq = dx * dx + dy * dy;
+  const reach = r + thickness;
+
+  if (distSq >= reach * reach || distSq === 0) return null;
+
+  const dist = Math.sqrt(distSq);
+  return { nx: dx / dist, ny: dy / dist, depth: reach - dist };
+}
+
+/**
+ * 凸多边形分离轴检测，返回的法线由 b 指向 a
+ */
+export function polygonVsPolygon(a: Vector[], b: Vector[]): Contact | null {
+  let best: Contact | null = null;
+
+  const testAxes = (shape: Vector[]): boolean => {
+    for (let i = 0; i < shape.length; i++) {
+      const p = shape[i], q = shape[(i + 1) % shape.length];
+      const ex = q.x - p.x, ey = q.y - p.y;
+      const len = Math.sqrt(ex * ex + ey * ey);
+      if (len === 0) continue;
+      const nx = -ey / len, ny = ex / len;
+
+      const ra = projectRange(a, nx, ny);
+      const rb = projectRange(b, nx, ny);
+      const overlap = Math.min(ra.max, rb.max) - Math.max(ra.min, rb.min);
+      if (overlap <= 0) return false;
+
+      if (!best || overlap < best.depth) {
+        // 法线朝向 a 相对 b 的一侧
+        const sign = (ra.min + ra.max) / 2 >= (rb.min + rb.max) / 2 ? 1 : -1;
+        best = { nx: nx * sign, ny: ny * sign, depth: overlap };
+      }
+    }
+    return true;
+  };
+
+  if (!testAxes(a) || !testAxes(b)) return null;
+  return best;
+}
+
+function projectRange(vertices: Vector[], nx: number, ny: number): { min: number; max: number } {
+  let min = Infinity, max = -Infinity;
+  vertices.forEach(v => {
+    const d = v.x * nx + v.y * ny;
+    if (d < min) min = d;
+    if (d > max) max = d;
+  });
+  return { min, max };
+}
+
+/**
+ * 线段胶囊的近似矩形顶点（用于与多边形做分离轴检测）
+ */
+export function getSegmentVertices(a: Vector, b: Vector, thickness: number): Vector[] {
+  const ex = b.x - a.x, ey = b.y - a.y;
+  const len = Math.sqrt(ex * ex + ey * ey) || 1;
+  const nx = -ey / len * thickness, ny = ex / len * thickness;
+  return [
+    { x: a.x + nx, y: a.y + ny },
+    { x: b.x + nx, y: b.y + ny },
+    { x: b.x - nx, y: b.y - ny },
+    { x: a.x - nx, y: a.y - ny }
+  ];
+}
@@ -0,0 +1,85 @@
+// src/hotseat.ts
+/**
+ * 双人同屏（传手机对战）
+ * 两位玩家轮流用同一部手机击球：每方有自己的名字、颜色和弹珠，
+ * 换人时先显示交接提示；战绩按名字单独记录，不计入单人战绩和积分
+ */
+
+import { GameResult } from './GameStates';
+
+export interface SeatProfile {
+  name: string;
+  color: string;
+  marbleId: string;
+}
+
+export interface SeatRecord {
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+export type SeatRecords = { [name: string]: SeatRecord };
+
+export const SEAT_NAME_MAX_LENGTH = 6;
+
+// 可选的弹珠颜色
+export const SEAT_COLORS = ['#3498db', '#e74c3c', '#2ecc71', '#f39c12', '#9b59b6', '#1abc9c'];
+
+// 客人（第二位玩家）只能用新玩家默认就有的弹珠，手机主人用自己已解锁的
+export const GUEST_MARBLES = ['basic_red', 'ocean_blue'];
+
+export const DEFAULT_SEATS: SeatProfile[] = [
+  { name: '玩家一', color: SEAT_COLORS[0], marbleId: 'basic_red' },
+  { name: '玩家二', color: SEAT_COLORS[1], marbleId: 'basic_red' }
+];
+
+/**
+ * 某一方可选的弹珠
+ * @param seat 0 为手机主人，1 为客人
+ * @param unlocked 手机主人已解锁的弹珠
+ */
+export function getSeatMarbles(seat: number, unlocked: string[]): string[] {
+  return seat === 0 ? unlocked : GUEST_MARBLES.slice();
+}
+
+/**
+ * 选项循环切换到下一个；当前值不在选项中时取第一个
+ */
+export function getNextOption<T>(options: T[], current: T): T {
+  return options[(options.indexOf(current) + 1) % options.length];
+}
+
+/**
+ * 名字去掉首尾空白并截断，空名字保留原来的
+ */
+export function normalizeSeatName(name: string, fallback: string): string {
+  const trimmed = name.trim().slice(0, SEAT_NAME_MAX_LENGTH);
+  return trimmed || fallback;
+}
+
+/**
+ * 记录一局结果，双方各记一笔；双方同名时无法分开记录，不记
+ * @param result 第一位玩家的结果
+ */
+export function recordSeatResult(records: SeatRecords, seats: SeatProfile[], result: GameResult): void {
+  if (seats[0].name === seats[1].name) return;
+
+  const opposite: { [result: string]: GameResult } = {
+    [GameResult.WIN]: GameResult.LOSE,
+    [GameResult.LOSE]: GameResult.WIN
+  };
+
+  [result, opposite[result] || result].forEach((seatResult, index) => {
+    const record = records[seats[index].name] || { wins: 0, losses: 0, draws: 0 };
+    if (seatResult === GameResult.WIN) record.wins++;
+    else if (seatResult === GameResult.LOSE) record.losses++;
+    else if (seatResult === GameResult.DRAW) record.draws++;
+    records[seats[index].name] = record;
+  });
+}
+
+export function formatSeatRecord(record: SeatRecord | undefined): string {
+  const { wins, losses, draws } = record || { wins: 0, losses: 0, draws: 0 };
+  return `${wins}胜 ${losses}负 ${draws}平`;
+}
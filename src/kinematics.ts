@@ -0,0 +1,171 @@
+// src/kinematics.ts
+/**
+ * 运动学障碍物
+ * 由数据描述的脚本运动（往返、绕圈、旋转、定时闸门），不受碰撞影响
+ */
+
+import { PhysicsBody } from './physics';
+
+// 往返：在初始位置与初始位置 + (dx, dy) 之间平滑往返
+export interface LinearMotion {
+  type: 'linear';
+  dx: number;
+  dy: number;
+  period: number; // 往返一次的秒数
+  phase?: number; // 初始相位（弧度）
+}
+
+// 绕圈：参考点绕初始位置做圆周运动
+export interface OrbitMotion {
+  type: 'orbit';
+  radius: number;
+  period: number;
+  phase?: number;
+}
+
+// 原地旋转：矩形绕中心、多边形绕原点、线段绕中点
+export interface RotateMotion {
+  type: 'rotate';
+  angularSpeed: number; // 弧度/秒，正值为顺时针（屏幕坐标）
+}
+
+// 定时闸门：关闭期间阻挡，打开期间不参与碰撞
+export interface GateMotion {
+  type: 'gate';
+  closedDuration: number;
+  openDuration: number;
+  offset?: number; // 时间偏移（秒）
+}
+
+export type KinematicMotion = LinearMotion | OrbitMotion | RotateMotion | GateMotion;
+
+// 运动的基准姿态（挂载运动时记录）
+export interface KinematicBase {
+  x: number;
+  y: number;
+  x2?: number;
+  y2?: number;
+  angle: number;
+}
+
+interface Pose {
+  x: number;
+  y: number;
+  angle: number;
+  open: boolean;
+}
+
+/**
+ * 为物体挂载脚本运动，并记录当前姿态作为基准
+ */
+export function attachMotion(body: PhysicsBody, motion: KinematicMotion): void {
+  body.isKinematic = true;
+  body.isStatic = true;
+  body.motion = motion;
+  body.motionBase = { x: body.x, y: body.y, x2: body.x2, y2: body.y2, angle: body.angle || 0 };
+  body.angularVelocity = 0;
+}
+
+/**
+ * 将运动学物体推进到时刻 time + dt，并写入对应的线速度和角速度
+ * 速度供碰撞时计算相对速度使用
+ */
+export function stepKinematicBody(body: PhysicsBody, time: number, dt: number): void {
+  const motion = body.motion;
+  const base = body.motionBase;
+  if (!motion || !base || dt <= 0) return;
+
+  const from = evaluatePose(motion, base, time);
+  const to = evaluatePose(motion, base, time + dt);
+
+  body.vx = (to.x - from.x) / dt;
+  body.vy = (to.y - from.y) / dt;
+  body.angularVelocity = (to.angle - from.angle) / dt;
+  body.isDisabled = to.open;
+
+  if (body.type === 'segment') {
+    applySegmentPose(body, base, to);
+  } else {
+    body.x = to.x;
+    body.y = to.y;
+    body.angle = to.angle;
+  }
+}
+
+/**
+ * 获取旋转中心（矩形中心、多边形原点、线段中点）
+ */
+export function getRotationPivot(body: PhysicsBody): { x: number; y: number } {
+  if (body.type === 'rectangle') {
+    return { x: body.x + (body.width || 0) / 2, y: body.y + (body.height || 0) / 2 };
+  }
+  if (body.type === 'segment') {
+    return {
+      x: (body.x + (body.x2 !== undefined ? body.x2 : body.x)) / 2,
+      y: (body.y + (body.y2 !== undefined ? body.y2 : body.y)) / 2
+    };
+  }
+  return { x: body.x, y: body.y };
+}
+
+/**
+ * 物体在世界点 (px, py) 处的速度（平移 + 旋转）
+ */
+export function getPointVelocity(body: PhysicsBody, px: number, py: number): { x: number; y: number } {
+  const omega = body.angularVelocity || 0;
+  if (omega === 0) return { x: body.vx, y: body.vy };
+
+  const pivot = getRotationPivot(body);
+  return {
+    x: body.vx - omega * (py - pivot.y),
+    y: body.vy + omega * (px - pivot.x)
+  };
+}
+
+function evaluatePose(motion: KinematicMotion, base: KinematicBase, time: number): Pose {
+  const pose: Pose = { x: base.x, y: base.y, angle: base.angle, open: false };
+
+  switch (motion.type) {
+    case 'linear': {
+      const s = (1 - Math.cos((Math.PI * 2 * time) / motion.period + (motion.phase || 0))) / 2;
+      pose.x += motion.dx * s;
+      pose.y += motion.dy * s;
+      break;
+    }
+    case 'orbit': {
+      const theta = (Math.PI * 2 * time) / motion.period + (motion.phase || 0);
+      pose.x += motion.radius * Math.cos(theta);
+      pose.y += motion.radius * Math.sin(theta);
+      break;
+    }
+    case 'rotate':
+      pose.angle += motion.angularSpeed * time;
+      break;
+    case 'gate': {
+      const cycle = motion.closedDuration + motion.openDuration;
+      const t = ((time + (motion.offset || 0)) % cycle + cycle) % cycle;
+      pose.open = t >= motion.closedDuration;
+      break;
+    }
+  }
+
+  return pose;
+}
+
+// 线段没有独立的角度字段，按基准端点绕中点旋转并平移
+function applySegmentPose(body: PhysicsBody, base: KinematicBase, pose: Pose): void {
+  const bx2 = base.x2 !== undefined ? base.x2 : base.x;
+  const by2 = base.y2 !== undefined ? base.y2 : base.y;
+  const cx = (base.x + bx2) / 2 + (pose.x - base.x);
+  const cy = (base.y + by2) / 2 + (pose.y - base.y);
+  const hx = (bx2 - base.x) / 2, hy = (by2 - base.y) / 2;
+  const rot = pose.angle - base.angle;
+  const cos = Math.cos(rot), sin = Math.sin(rot);
+  const rx = hx * cos - hy * sin, ry = hx * sin + hy * cos;
+
+  body.x = cx - rx;
+  body.y = cy - ry;
+  body.x2 = cx + rx;
+  body.y2 = cy + ry;
+  body.angle = pose.angle;
+}
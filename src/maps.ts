@@ -0,0 +1,198 @@
+// src/maps.ts
+/**
+ * 地图配置模块
+ * 每张地图自带物理参数：俯视桌面（无重力，只有滚动摩擦）或倾斜棋盘（可配置重力方向和大小），
+ * 以及边界规则：反弹墙、出界淘汰、对侧绕回或带缓冲带的开放边缘；
+ * 出圈地图使用圆形场地和独立的胜负规则，竞速地图比屏幕更长、镜头跟随弹珠滚动
+ */
+
+import { Vector, BoundaryMode, RingBoundary } from './physics';
+import { ForceField } from './fields';
+
+export type PhysicsProfileType = 'top-down' | 'tilted';
+
+export interface PhysicsProfile {
+  type: PhysicsProfileType;
+  gravityAngle?: number;    // 倾斜方向（度），0 指向屏幕右侧，90 指向屏幕下方
+  gravityStrength?: number; // 像素/秒²
+  airResistance?: number;   // 每个固定步的速度保留系数，默认 1
+}
+
+// 出界后果：直接输掉本局 / 扣分后放回击球前的位置
+export type BoundaryPenalty = 'lose' | 'score';
+
+// 玩法：经典（一扎捕获）/ 出圈（把对手打出圆圈）/ 打洞（把自己的弹珠送进洞里得分）/ 竞速（先过终点线）
+export type GameMode = 'classic' | 'ring' | 'hole' | 'race';
+
+export interface BoundaryProfile {
+  mode: BoundaryMode;
+  shape?: 'rectangle' | 'ring'; // 默认为屏幕矩形
+  ringRatio?: number;           // 圆圈半径占屏幕短边的比例
+  margin?: number;           // 开放边缘的缓冲带宽度（像素）
+  penalty?: BoundaryPenalty; // 默认 lose
+  penaltyScore?: number;     // penalty 为 score 时扣除的积分
+}
+
+export interface RaceProfile {
+  lengthRatio: number; // 赛道长度为屏幕高度的倍数
+  racers: number;      // 参赛弹珠数（含玩家的一颗）
+}
+
+export interface MapDefinition {
+  id: string;
+  name: string;
+  description: string;
+  physics: PhysicsProfile;
+  boundary?: BoundaryProfile; // 默认反弹墙
+  mode?: GameMode;            // 默认经典玩法
+  fields?: ForceField[];      // 力场，坐标和尺寸为屏幕比例，见 layoutField
+  race?: RaceProfile;         // 竞速玩法的赛道配置
+}
+
+export const DEFAULT_MAP_ID = 'table';
+
+export const MAPS: MapDefinition[] = [
+  {
+    id: 'table',
+    name: '方桌',
+    description: '俯视的平整桌面，弹珠只受滚动摩擦',
+    physics: { type: 'top-down' }
+  },
+  {
+    id: 'slope',
+    name: '斜坡',
+    description: '棋盘朝屏幕下方倾斜',
+    physics: { type: 'tilted', gravityAngle: 90, gravityStrength: 60 }
+  },
+  {
+    id: 'side_slope',
+    name: '侧坡',
+    description: '棋盘向右侧倾斜',
+    physics: { type: 'tilted', gravityAngle: 0, gravityStrength: 40 }
+  },
+  {
+    id: 'windy',
+    name: '风口',
+    description: '上半场有一条横风带，把经过的弹珠往右吹',
+    physics: { type: 'top-down' },
+    fields: [
+      { type: 'wind', id: 'wind_0', x: 0, y: 0.22, width: 1, height: 0.12, ax: 240, ay: 0 }
+    ]
+  },
+  {
+    id: 'vortex',
+    name: '漩涡',
+    description: '中央的旋涡带着弹珠打转，角落里一块磁石吸、一块斥石推',
+    physics: { type: 'top-down' },
+    fields: [
+      { type: 'vortex', id: 'vortex_0', x: 0.5, y: 0.5, radius: 0.2, strength: 300, pull: 60 },
+      { type: 'point', id: 'magnet_0', x: 0.3, y: 0.22, radius: 0.16, strength: 320 },
+      { type: 'point', id: 'repulsor_0', x: 0.7, y: 0.78, radius: 0.16, strength: -320 }
+    ]
+  },
+  {
+    id: 'cliff',
+    name: '悬崖',
+    description: '桌子没有围边，弹珠掉出边界就输掉本局',
+    physics: { type: 'top-down' },
+    boundary: { mode: 'lethal', penalty: 'lose' }
+  },
+  {
+    id: 'loop',
+    name: '环绕',
+    description: '从一边滚出的弹珠会从对边回来',
+    physics: { type: 'top-down' },
+    boundary: { mode: 'wrap' }
+  },
+  {
+    id: 'meadow',
+    name: '草地',
+    description: '场外是一圈草地，停在草里或滚得更远要扣分',
+    physics: { type: 'top-down' },
+    boundary: { mode: 'open', margin: 60, penalty: 'score', penaltyScore: 10 }
+  },
+  {
+    id: 'ring',
+    name: '出圈',
+    description: '地上画一个圆圈，把对手的弹珠打出圈外，自己留在圈里就赢',
+    physics: { type: 'top-down' },
+    boundary: { mode: 'lethal', shape: 'ring', ringRatio: 0.42 },
+    mode: 'ring'
+  },
+  {
+    id: 'holes',
+    name: '打洞',
+    description: '把弹珠轻轻送进洞里得分，洞越小分越高，太快会从洞口滑过',
+    physics: { type: 'top-down' },
+    mode: 'hole'
+  },
+  {
+    id: 'race',
+    name: '竞速',
+    description: '四屏长的赛道，各方轮流弹自己的弹珠，按先后越过终点线排名',
+    physics: { type: 'top-down' },
+    mode: 'race',
+    race: { lengthRatio: 4, racers: 4 }
+  }
+];
+
+/**
+ * 按 id 获取地图，未知 id 回退到默认地图
+ */
+export function getMap(id?: string): MapDefinition {
+  return MAPS.find(map => map.id === id) || MAPS.find(map => map.id === DEFAULT_MAP_ID) as MapDefinition;
+}
+
+/**
+ * 按显示名称获取地图（设置菜单的选择项使用名称）
+ */
+export function getMapByName(name: string): MapDefinition | undefined {
+  return MAPS.find(map => map.name === name);
+}
+
+/**
+ * 物理参数对应的重力向量；俯视桌面没有重力
+ */
+export function getProfileGravity(profile: PhysicsProfile): Vector {
+  if (profile.type === 'top-down') return { x: 0, y: 0 };
+
+  const radians = (profile.gravityAngle !== undefined ? profile.gravityAngle : 90) * Math.PI / 180;
+  const strength = profile.gravityStrength || 0;
+  return { x: Math.cos(radians) * strength, y: Math.sin(radians) * strength };
+}
+
+/**
+ * 地图的边界规则，未配置时为反弹墙
+ */
+export function getMapBoundary(map: MapDefinition): BoundaryProfile {
+  return map.boundary || { mode: 'reflect' };
+}
+
+export function getGameMode(map: MapDefinition): GameMode {
+  return map.mode || 'classic';
+}
+
+/**
+ * 圆形场地的位置和大小（居中于屏幕），矩形场地返回 null
+ */
+export function getRingBoundary(map: MapDefinition, width: number, height: number): RingBoundary | null {
+  const boundary = getMapBoundary(map);
+  if (boundary.shape !== 'ring') return null;
+
+  return {
+    x: width / 2,
+    y: height / 2,
+    radius: Math.min(width, height) * (boundary.ringRatio || 0.42)
+  };
+}
+
+/**
+ * 地图世界的高度：竞速赛道按倍数加长，其余地图与屏幕等高
+ */
+export function getMapHeight(map: MapDefinition, screenHeight: number): number {
+  return map.race ? Math.round(screenHeight * map.race.lengthRatio) : screenHeight;
+}
+
+export function getProfileAirResistance(profile: PhysicsProfile): number {
+  return profile.airResistance !== undefined ? profile.airResistance : 1;
+}
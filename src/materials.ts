@@ -0,0 +1,106 @@
+// src/materials.ts
+/**
+ * 表面材质模块
+ * 命名材质注册表：障碍物和地面区域通过材质 id 引用，碰撞时按材质对查表
+ */
+
+export type MaterialPattern = 'plain' | 'streaks' | 'dots' | 'blotches' | 'rings' | 'grid';
+
+export interface Material {
+  id: string;
+  name: string;
+  restitution: number;      // 作为墙面时的弹性系数 0-1
+  surfaceFriction: number;  // 接触时的切向摩擦 0-1
+  rollingFriction?: number; // 作为地面区域时替代物体自身的滚动摩擦
+  bounceBoost?: number;     // 弹射：沿法线额外增加的速度（像素/秒）
+  stickiness?: number;      // 粘性：接触后速度的吸收比例 0-1
+  color: string;
+  pattern: MaterialPattern;
+}
+
+// 一次接触实际使用的参数
+export interface ContactMaterial {
+  restitution: number;
+  surfaceFriction: number;
+  bounceBoost: number;
+  stickiness: number;
+}
+
+export const DEFAULT_MATERIAL_ID = 'default';
+
+const BUILTIN_MATERIALS: Material[] = [
+  { id: DEFAULT_MATERIAL_ID, name: '石板', restitution: 0.9, surfaceFriction: 0.2, color: '#95a5a6', pattern: 'plain' },
+  { id: 'ice', name: '冰面', restitution: 0.9, surfaceFriction: 0.01, rollingFriction: 0.002, color: '#a8e6ff', pattern: 'streaks' },
+  { id: 'sand', name: '沙地', restitution: 0.3, surfaceFriction: 0.4, rollingFriction: 0.06, color: '#e1c16e', pattern: 'dots' },
+  { id: 'mud', name: '泥地', restitution: 0.15, surfaceFriction: 0.6, rollingFriction: 0.12, stickiness: 0.3, color: '#6b4f2a', pattern: 'blotches' },
+  { id: 'bumper', name: '弹板', restitution: 1, surfaceFriction: 0.05, bounceBoost: 120, color: '#e67e22', pattern: 'rings' },
+  { id: 'sticky', name: '粘板', restitution: 0.05, surfaceFriction: 0.9, rollingFriction: 0.3, stickiness: 0.8, color: '#27ae60', pattern: 'grid' }
+];
+
+export class MaterialRegistry {
+  private static instance: MaterialRegistry;
+  private materials: Map<string, Material> = new Map();
+  private pairs: Map<string, ContactMaterial> = new Map();
+
+  private constructor() {
+    BUILTIN_MATERIALS.forEach(material => this.register(material));
+  }
+
+  public static getInstance(): MaterialRegistry {
+    if (!MaterialRegistry.instance) {
+      MaterialRegistry.instance = new MaterialRegistry();
+    }
+    return MaterialRegistry.instance;
+  }
+
+  /**
+   * 注册或覆盖材质
+   */
+  public register(material: Material): void {
+    this.materials.set(material.id, { ...material });
+  }
+
+  /**
+   * 为特定材质对指定接触参数（优先于默认组合规则）
+   */
+  public registerPair(a: string, b: string, contact: ContactMaterial): void {
+    this.pairs.set(MaterialRegistry.pairKey(a, b), { ...contact });
+  }
+
+  public has(id: string): boolean {
+    return this.materials.has(id);
+  }
+
+  /**
+   * 获取材质，未知 id 回退到默认材质
+   */
+  public get(id?: string): Material {
+    return (id && this.materials.get(id)) || this.materials.get(DEFAULT_MATERIAL_ID) as Material;
+  }
+
+  public getIds(): string[] {
+    return Array.from(this.materials.keys());
+  }
+
+  /**
+   * 查询材质对的接触参数：弹性取小，摩擦取几何平均，弹射和粘性取大
+   */
+  public combine(a?: string, b?: string): ContactMaterial {
+    const override = this.pairs.get(MaterialRegistry.pairKey(a || DEFAULT_MATERIAL_ID, b || DEFAULT_MATERIAL_ID));
+    if (override) return { ...override };
+
+    const ma = this.get(a), mb = this.get(b);
+    return {
+      restitution: Math.min(ma.restitution, mb.restitution),
+      surfaceFriction: Math.sqrt(ma.surfaceFriction * mb.surfaceFriction),
+      bounceBoost: Math.max(ma.bounceBoost || 0, mb.bounceBoost || 0),
+      stickiness: Math.max(ma.stickiness || 0, mb.stickiness || 0)
+    };
+  }
+
+  private static pairKey(a: string, b: string): string {
+    return a < b ? `${a}|${b}` : `${b}|${a}`;
+  }
+}
+
+export default MaterialRegistry;
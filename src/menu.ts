@@ -4,7 +4,19 @@ import { TextButton, TextButtonStyle, ButtonConfig } from "./ui/TextButton";
 import { ButtonManager } from "./ui/ButtonManager";
 import DataBus from './databus';
 import ShareManager from './share';
-import { MenuState } from './GameStates';
+import { MenuState, GameResult } from './GameStates';
+import { MAPS } from './maps';
+import {
+  SeatProfile, SEAT_COLORS, getSeatMarbles, getNextOption, normalizeSeatName, formatSeatRecord
+} from './hotseat';
+
+// 结算界面标题
+const GAME_OVER_TITLES: Record<GameResult, string> = {
+  [ GameResult.WIN ]: "胜利！",
+  [ GameResult.LOSE ]: "失败！",
+  [ GameResult.DRAW ]: "平局",
+  [ GameResult.ABANDONED ]: "已放弃"
+};
 
 // 弹珠类型定义
 export interface MarbleType
@@ -51,7 +63,8 @@ export class MenuSystem
   private height: number;
   private buttons: Button[] = [];
   private buttonManager: ButtonManager;
-  private gameOverInfo: { win: boolean; message: string } | null = null;
+  private gameOverInfo: { result: GameResult; message: string; ranking: string[]; title?: string } | null = null;
+  private hotSeatSeats: SeatProfile[] = []; // 双人同屏设置界面正在编辑的双方资料
 
   // 弹珠商店数据
   public marbleStore: MarbleType[] = [
@@ -138,12 +151,39 @@ export class MenuSystem
       value: '中等',
       options: [ '简单', '中等', '困难' ]
     },
+    {
+      id: 'map',
+      name: '地图',
+      type: 'select',
+      value: DataBus.getCurrentMap().name,
+      options: MAPS.map( map => map.name )
+    },
+    {
+      id: 'team_size',
+      name: '每方弹珠',
+      type: 'select',
+      value: '1',
+      options: [ '1', '2', '3', '4', '5' ]
+    },
     {
       id: 'aim_assist',
       name: '瞄准辅助',
       type: 'toggle',
       value: true
     },
+    {
+      id: 'timeout_policy',
+      name: '超时处理',
+      type: 'select',
+      value: '自动让过',
+      options: [ '自动让过', '随机弱击', '扣分' ]
+    },
+    {
+      id: 'span_minigame',
+      name: '亲手量一扎',
+      type: 'toggle',
+      value: false
+    },
     {
       id: 'particle',
       name: '粒子效果',
@@ -162,6 +202,8 @@ export class MenuSystem
   public onHelp: ( () => void ) | null = null;
   public onStore: ( () => void ) | null = null;
   public onSettings: ( () => void ) | null = null;
+  public onHotSeat: ( () => void ) | null = null;
+  public onHotSeatStart: ( ( seats: SeatProfile[] ) => void ) | null = null;
   public onBackToMenu: ( () => void ) | null = null;
   public onSettingChange: ( ( id: string, value: any ) => void ) | null = null;
   public onMarblePurchase: ( ( marbleId: string ) => void ) | null = null;
@@ -271,7 +313,7 @@ export class MenuSystem
     this.ctx.save();
 
     // 绘制背景 - 确保完全覆盖游戏场景
-    if ( state === 'MAIN' || state === 'HELP' || state === 'SETTINGS' || state === 'STORE' )
+    if ( state === 'MAIN' || state === 'HELP' || state === 'SETTINGS' || state === 'STORE' || state === 'HOTSEAT' )
     {
       // 使用完全不透明的深色背景强制覆盖
       this.ctx.fillStyle = '#000000';
@@ -309,16 +351,24 @@ export class MenuSystem
     {
       this.drawTitle( "积分商店", 0.15 );
       this.drawStore( playerScore );
+    } else if ( state === 'HOTSEAT' )
+    {
+      this.drawTitle( "双人对战", 0.12 );
+      this.drawHotSeatSetup();
     } else if ( state === 'GAME_OVER' && this.gameOverInfo )
     {
-      const titleY = 0.35;
-      this.drawTitle( this.gameOverInfo.win ? "胜利！" : "失败！", titleY );
+      // 有排名（竞速）或双人战绩时标题上移，给排名留出位置
+      const ranking = this.gameOverInfo.ranking;
+      const titleY = ranking.length > 0 ? 0.18 : 0.35;
+      this.drawTitle( this.gameOverInfo.title || GAME_OVER_TITLES[ this.gameOverInfo.result ], titleY );
       this.drawSubtitle( this.gameOverInfo.message, titleY + 0.08 );
-      // 显示获得的积分
-      if ( this.gameOverInfo.win && playerScore > 0 )
+      // 显示本局获得的积分（双人同屏不发积分）
+      const reward = DataBus.config.MATCH_REWARDS[ this.gameOverInfo.result ];
+      if ( !this.gameOverInfo.title && reward.score > 0 )
       {
-        this.drawSubtitle( `获得积分: +${ playerScore }`, titleY + 0.15 );
+        this.drawSubtitle( `获得积分: +${ reward.score }`, titleY + 0.15 );
       }
+      this.drawRanking( ranking, titleY + 0.22 );
     }
 
     // 绘制所有按钮
@@ -347,6 +397,12 @@ export class MenuSystem
       handled = this.handleStoreInput( x, y );
     }
 
+    // 处理双人同屏设置界面的特殊输入
+    if ( !handled && state === 'HOTSEAT' )
+    {
+      handled = this.handleHotSeatInput( x, y );
+    }
+
     return handled;
   }
 
@@ -458,6 +514,73 @@ export class MenuSystem
     return false;
   }
 
+  // 处理双人同屏设置界面输入：点名字改名，点颜色和弹珠切换到下一个
+  private handleHotSeatInput ( x: number, y: number ): boolean
+  {
+    const boxX = this.width * 0.7;
+    const boxWidth = 100;
+    const boxHeight = 25;
+    if ( x < boxX - boxWidth / 2 || x > boxX + boxWidth / 2 ) return false;
+
+    for ( let i = 0; i < this.hotSeatSeats.length; i++ )
+    {
+      const seat = this.hotSeatSeats[ i ];
+      const other = this.hotSeatSeats[ 1 - i ];
+      const rowY = ( row: number ) => this.getHotSeatRowY( i, row );
+      const inRow = ( row: number ) => y >= rowY( row ) - boxHeight / 2 && y <= rowY( row ) + boxHeight / 2;
+
+      if ( inRow( 1 ) )
+      {
+        this.editSeatName( seat, other );
+        return true;
+      }
+      if ( inRow( 2 ) )
+      {
+        // 双方颜色不能相同
+        seat.color = getNextOption( SEAT_COLORS, seat.color );
+        if ( seat.color === other.color ) seat.color = getNextOption( SEAT_COLORS, seat.color );
+        return true;
+      }
+      if ( inRow( 3 ) )
+      {
+        seat.marbleId = getNextOption( this.getSeatMarbleIds( i ), seat.marbleId );
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  // 弹出输入框修改名字，与对方重名时保留原名
+  private editSeatName ( seat: SeatProfile, other: SeatProfile ): void
+  {
+    if ( typeof wx === 'undefined' || !wx.showModal ) return;
+
+    wx.showModal( {
+      title: '输入名字',
+      content: seat.name,
+      editable: true,
+      placeholderText: seat.name,
+      success: res =>
+      {
+        if ( !res.confirm ) return;
+        const name = normalizeSeatName( res.content || '', seat.name );
+        if ( name !== other.name ) seat.name = name;
+      }
+    } );
+  }
+
+  // 第一位（手机主人）用已解锁的弹珠，第二位（客人）用默认弹珠
+  private getSeatMarbleIds ( seat: number ): string[]
+  {
+    return getSeatMarbles( seat, this.getUnlockedMarbles().map( marble => marble.id ) );
+  }
+
+  private getHotSeatRowY ( seat: number, row: number ): number
+  {
+    return this.height * 0.22 + seat * 150 + row * 30;
+  }
+
   // 切换到主菜单
   public showMainMenu (): void
   {
@@ -477,6 +600,18 @@ export class MenuSystem
     this.setupStoreMenu();
   }
 
+  // 切换到双人同屏设置界面：载入上次的双方资料，弹珠不在可选范围内时换成第一颗
+  public showHotSeatSetup (): void
+  {
+    this.gameOverInfo = null;
+    this.hotSeatSeats = DataBus.hotSeats.map( ( seat, index ) =>
+    {
+      const marbles = this.getSeatMarbleIds( index );
+      return { ...seat, marbleId: marbles.indexOf( seat.marbleId ) >= 0 ? seat.marbleId : marbles[ 0 ] };
+    } );
+    this.setupHotSeatMenu();
+  }
+
   // 切换到帮助界面
   public showHelpMenu (): void
   {
@@ -485,10 +620,15 @@ export class MenuSystem
   }
 
   // 切换到游戏结束界面
-  public showGameOver ( win: boolean, message: string ): void
+  /**
+   * 显示结算界面
+   * @param ranking 竞速的排名行和双人同屏的战绩行，其他为空
+   * @param title 替换按结果显示的标题（双人同屏显示获胜一方）
+   */
+  public showGameOver ( result: GameResult, message: string, ranking: string[] = [], title?: string ): void
   {
-    this.gameOverInfo = { win, message };
-    this.setupGameOverMenu( win );
+    this.gameOverInfo = { result, message, ranking, title };
+    this.setupGameOverMenu( result === GameResult.WIN && !title );
   }
 
   // --- 布局初始化方法 ---
@@ -511,19 +651,32 @@ export class MenuSystem
       accentColor: this.colors.accent
     };
 
-    // 使用ButtonManager创建按钮
+    // 使用ButtonManager创建按钮；第一行并排放单人和双人开局
+    const halfW = ( btnW - gap ) / 2;
     this.buttonManager.addButtons([
       {
         id: "start_game",
         x: centerX,
         y: startY,
-        width: btnW,
+        width: halfW,
         height: btnH,
         text: "开始游戏",
         onClick: () => {
           if ( this.onStart ) this.onStart();
         }
       },
+      {
+        id: "hot_seat",
+        x: centerX + halfW + gap,
+        y: startY,
+        width: halfW,
+        height: btnH,
+        text: "双人对战",
+        onClick: () => {
+          this.showHotSeatSetup();
+          if ( this.onHotSeat ) this.onHotSeat();
+        }
+      },
       {
         id: "help",
         x: centerX,
@@ -601,6 +754,26 @@ export class MenuSystem
     } );
   }
 
+  private setupHotSeatMenu (): void
+  {
+    this.buttons = [];
+    this.buttonManager.clear();
+    const btnW = 140;
+    const btnH = 50;
+
+    this.addButton( "hot_seat_start", "开始对战", ( this.width - btnW ) / 2, this.height - 150, btnW, btnH, () =>
+    {
+      if ( this.onHotSeatStart ) this.onHotSeatStart( this.hotSeatSeats );
+    } );
+
+    // 底部返回按钮
+    this.addButton( "back", "返回", ( this.width - btnW ) / 2, this.height - 80, btnW, btnH, () =>
+    {
+      this.showMainMenu();
+      if ( this.onBackToMenu ) this.onBackToMenu();
+    } );
+  }
+
   private setupHelpMenu (): void
   {
     this.buttons = [];
@@ -722,23 +895,37 @@ export class MenuSystem
     this.ctx.fillText( text, this.width / 2, this.height * yRatio );
   }
 
+  private drawRanking ( lines: string[], yRatio: number ): void
+  {
+    this.ctx.font = "16px 'Arial', 'Microsoft YaHei', sans-serif";
+    this.ctx.fillStyle = this.colors.text;
+    this.ctx.textAlign = "center";
+    lines.forEach( ( line, index ) =>
+    {
+      this.ctx.fillText( line, this.width / 2, this.height * yRatio + index * 22 );
+    } );
+  }
+
   private drawHelpText (): void
   {
     const lines = [
       "游戏目标:",
       "将你的弹珠发射到敌人弹珠附近。",
-      "捕获范围：在一扎距离内。",
+      "一扎内捕获对方弹珠，全部捕获即获胜。",
+      "开启亲手量一扎：从己方弹珠拖到对方弹珠。",
       "",
       "操作方法:",
-      "向后拖拽以瞄准和蓄力。",
-      "松开手指进行发射。",
+      "向后拖拽以瞄准和蓄力；双人对战轮流传手机。",
+      "松开手指发射；多颗弹珠时按住哪颗弹哪颗。",
       "",
       "游戏规则:",
-      "回合制游戏。",
-      "不要掉出边界！",
+      "回合制游戏，每次击球限时，超时按设置处理。",
+      "不要掉出边界！出界会判负或扣分。",
+      "出圈地图把对手打出圆圈，竞速地图先过终点者胜。",
       "",
       "积分系统:",
       "胜利获得积分。",
+      "开局前可下注，赢了按赔率返还。",
       "积分可解锁新弹珠。"
     ];
 
@@ -792,6 +979,44 @@ export class MenuSystem
     }
   }
 
+  // 双人同屏设置：每方一栏，依次为名字、颜色、弹珠和战绩
+  private drawHotSeatSetup (): void
+  {
+    const labels = [ "第一位（手机主人）", "第二位（客人）" ];
+
+    this.hotSeatSeats.forEach( ( seat, index ) =>
+    {
+      const rowY = ( row: number ) => this.getHotSeatRowY( index, row );
+      const marble = this.marbleStore.find( item => item.id === seat.marbleId );
+
+      this.ctx.font = "bold 18px 'Arial', 'Microsoft YaHei', sans-serif";
+      this.ctx.fillStyle = seat.color;
+      this.ctx.textAlign = "left";
+      this.ctx.textBaseline = "middle";
+      this.ctx.fillText( labels[ index ], this.width * 0.15, rowY( 0 ) );
+
+      this.ctx.font = "16px 'Arial', 'Microsoft YaHei', sans-serif";
+      this.ctx.fillStyle = this.colors.text;
+      this.ctx.fillText( "名字", this.width * 0.2, rowY( 1 ) );
+      this.ctx.fillText( "颜色", this.width * 0.2, rowY( 2 ) );
+      this.ctx.fillText( "弹珠", this.width * 0.2, rowY( 3 ) );
+      this.ctx.fillText( "战绩", this.width * 0.2, rowY( 4 ) );
+
+      this.drawSelect( seat.name, this.width * 0.7, rowY( 1 ) );
+      this.ctx.fillStyle = seat.color;
+      this.ctx.fillRect( this.width * 0.7 - 50, rowY( 2 ) - 12.5, 100, 25 );
+      this.ctx.strokeStyle = this.colors.accent;
+      this.ctx.lineWidth = 2;
+      this.ctx.strokeRect( this.width * 0.7 - 50, rowY( 2 ) - 12.5, 100, 25 );
+      this.drawSelect( marble ? marble.name : seat.marbleId, this.width * 0.7, rowY( 3 ) );
+
+      this.ctx.font = "16px 'Arial', 'Microsoft YaHei', sans-serif";
+      this.ctx.fillStyle = this.colors.text;
+      this.ctx.textAlign = "center";
+      this.ctx.fillText( formatSeatRecord( DataBus.hotSeatRecords[ seat.name ] ), this.width * 0.7, rowY( 4 ) );
+    } );
+  }
+
   private drawToggle ( id: string, value: boolean, x: number, y: number ): void
   {
     const radius = 10;
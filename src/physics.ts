@@ -6,69 +6,719 @@
  * 遵循极简高性能原则，实现基础的2D物理模拟
  */
 
+import {
+  SweepHit, Contact, sweepCircleCircle, sweepCircleRect, sweepCircleEdges, sweepCircleSegment,
+  getRectVertices, transformVertices, circleVsPolygon, circleVsSegment, polygonVsPolygon, getSegmentVertices
+} from './geometry';
+import { AABB, SpatialGrid } from './broadphase';
+import { KinematicMotion, KinematicBase, stepKinematicBody, getPointVelocity } from './kinematics';
+import { Material, ContactMaterial, MaterialRegistry, DEFAULT_MATERIAL_ID } from './materials';
+import { ContactEvent, ContactEventBus } from './contacts';
+import { ForceField, getFieldAcceleration } from './fields';
+
 export interface Vector {
   x: number;
   y: number;
 }
 
+export type ShapeType = 'circle' | 'rectangle' | 'polygon' | 'segment' | 'hole';
+
+// 世界边界：反弹墙 / 出界即淘汰 / 从对侧绕回 / 开放边缘（场外缓冲带）
+export type BoundaryMode = 'reflect' | 'lethal' | 'wrap' | 'open';
+
+// 圆形场地（出圈玩法），设置后弹珠的边界按圆圈判断
+export interface RingBoundary {
+  x: number;
+  y: number;
+  radius: number;
+}
+
 export interface PhysicsBody {
   id: string;
-  type: 'circle' | 'rectangle';
-  x: number;
+  type: ShapeType;
+  x: number;       // 圆心（含洞口） / 矩形左上角 / 多边形原点 / 线段起点
   y: number;
   vx: number;
   vy: number;
   mass: number;
-  radius?: number; // For circle
+  radius?: number; // For circle；线段为胶囊半厚度
   width?: number;  // For rectangle
   height?: number; // For rectangle
+  angle?: number;  // 旋转角（弧度），矩形绕中心、多边形绕原点
+  vertices?: Vector[]; // For polygon，局部坐标的凸多边形顶点
+  x2?: number;     // For segment 终点
+  y2?: number;
   isStatic: boolean;
   restitution: number; // 弹性系数 0-1
   friction: number;    // 摩擦系数 0-1
   passThroughObstacleCount?: number;
   bonusBounceCount?: number;
   bonusBounceRestitution?: number;
-  onCollide?: (other: PhysicsBody, force: number) => void; // 碰撞回调
+  prevX?: number; // 上一固定步的位置，用于渲染插值
+  prevY?: number;
+  isSleeping?: boolean; // 休眠物体不积分，也不与静态/休眠物体检测
+  sleepTimer?: number;  // 能量持续低于阈值的时长（秒）
+  isKinematic?: boolean; // 运动学物体：按脚本运动，质量视为无穷大（同时 isStatic 为 true）
+  motion?: KinematicMotion;
+  motionBase?: KinematicBase;
+  angularVelocity?: number; // 弧度/秒；弹珠为侧旋，运动学物体为转速
+  isDisabled?: boolean; // 暂不参与碰撞（如打开的闸门）
+  material?: string; // 材质 id，见 MaterialRegistry
+  isOutOfBounds?: boolean; // 已出界淘汰，不再运动和碰撞
+  captureSpeed?: number; // For hole：低于该速度进入洞口的弹珠被吃进（像素/秒）
+  rimPull?: number;      // For hole：较快的弹珠掠过洞口时被拉向洞心的加速度（像素/秒²）
+  capturedBy?: string;   // 弹珠落入的洞 id
+}
+
+// 地面材质区域：不参与碰撞，只改变区域内物体的滚动摩擦
+export interface SurfaceZone {
+  id: string;
+  shape: 'rectangle' | 'circle';
+  x: number; // 矩形左上角 / 圆心
+  y: number;
+  width?: number;
+  height?: number;
+  radius?: number;
+  material: string;
+}
+
+export interface PhysicsConfig {
+  fixedTimeStep: number; // 固定步长（秒）
+  maxSubSteps: number;   // 单帧最多追赶的步数，避免卡顿后雪崩
+  gravity: Vector;       // 每秒速度增量
+  airResistance: number; // 每个固定步的速度保留系数
+  ccdMotionThreshold: number; // 单步位移超过 半径×该值 时启用连续碰撞检测
+  maxCcdIterations: number;   // 单步内最多处理的撞击次数
+  broadPhaseCellSize: number; // 宽相位网格单元边长（像素）
+  contactFriction: number; // 未指定材质时接触点的切向摩擦系数
+  spinCurve: number;       // 侧旋使路径弯曲的系数
+  spinDamping: number;     // 侧旋每 1/60 秒的衰减比例
+  sleepEnergyThreshold: number; // 单位质量动能（含旋转）低于该值开始计时休眠
+  sleepTime: number;            // 持续低能量多久后进入休眠（秒）
+  boundaryMode: BoundaryMode;   // 弹珠的边界处理方式；可推动障碍物始终被边界挡住
+  boundaryMargin: number;       // 开放边缘的场外缓冲带宽度（像素），越过即出界
+  boundaryDrag: number;         // 缓冲带内每 1/60 秒额外损失的速度比例
+}
+
+// 每帧性能统计（供调试和性能分析）
+export interface PhysicsStats {
+  bodies: number;
+  steps: number;
+  bruteForcePairs: number; // 两两检测时需要的对数，对照用
+  candidatePairs: number;  // 宽相位输出的候选对
+  skippedPairs: number;    // 静态/休眠组合被跳过的对
+  testedPairs: number;     // 实际进入窄相位的对
+  sweepQueries: number;    // 连续碰撞检测的网格查询次数
+}
+
+// 连续碰撞检测命中的对象
+interface ImpactCandidate extends SweepHit {
+  kind: 'body' | 'wall';
+  other?: PhysicsBody;
+  axis?: 'x' | 'y';
+}
+
+export const DEFAULT_PHYSICS_CONFIG: PhysicsConfig = {
+  fixedTimeStep: 1 / 60,
+  maxSubSteps: 8,
+  gravity: { x: 0, y: 0 },
+  airResistance: 1,
+  ccdMotionThreshold: 0.5,
+  maxCcdIterations: 4,
+  broadPhaseCellSize: 64,
+  contactFriction: 0.2,
+  spinCurve: 0.02,
+  spinDamping: 0.02,
+  sleepEnergyThreshold: 5,
+  sleepTime: 0.5,
+  boundaryMode: 'reflect',
+  boundaryMargin: 60,
+  boundaryDrag: 0.15
+};
+
+// 撞击后回退的距离，避免下一次扫掠从接触点内部出发
+const CONTACT_SKIN = 0.01;
+
+// 累加器比较容差，避免 1/30 等帧长因浮点误差少走一步
+const STEP_EPSILON = 1e-9;
+
+/**
+ * 复制物体用于试算；顶点等数组一并复制，运动数据只读可共享
+ */
+export function cloneBodies<T extends PhysicsBody>(bodies: T[]): T[] {
+  return bodies.map(body => ({
+    ...body,
+    vertices: body.vertices ? body.vertices.map(v => ({ x: v.x, y: v.y })) : undefined
+  }));
 }
 
 export class PhysicsEngine {
   private bounds: { width: number; height: number };
+  private config: PhysicsConfig;
+  private accumulator: number = 0;
+  private alpha: number = 0;
+  private stepCount: number = 0;
+  private simTime: number = 0; // 模拟时间（秒），驱动运动学物体
+  private zones: SurfaceZone[] = [];
+  private ring: RingBoundary | null = null;
+  private fields: ForceField[] = [];
+  private materials: MaterialRegistry = MaterialRegistry.getInstance();
+  private atRest: boolean = false;
+  private activeContacts: Map<string, ContactEvent> = new Map();
+  private stepContacts: Map<string, ContactEvent> = new Map();
 
-  constructor(width: number, height: number) {
+  // 碰撞事件流（begin / persist / end），每个固定步末尾统一发出
+  public readonly contacts: ContactEventBus = new ContactEventBus();
+
+  // 所有可动物体都进入休眠时触发一次（再次有物体醒来后才会重新触发）
+  public onAllBodiesAtRest?: () => void;
+
+  // 弹珠出界被淘汰时触发
+  public onBodyOutOfBounds?: (body: PhysicsBody) => void;
+
+  // 弹珠落入洞口时触发
+  public onBodyCaptured?: (body: PhysicsBody, hole: PhysicsBody) => void;
+  private grid: SpatialGrid<PhysicsBody>;
+  private stats: PhysicsStats = PhysicsEngine.createEmptyStats();
+
+  constructor(width: number, height: number, config: Partial<PhysicsConfig> = {}) {
     this.bounds = { width, height };
+    this.config = { ...DEFAULT_PHYSICS_CONFIG, ...config };
+    this.grid = new SpatialGrid<PhysicsBody>(this.config.broadPhaseCellSize);
   }
 
-  // 主更新循环
-  public update(bodies: PhysicsBody[], dt: number): void {
-    bodies.forEach(body => this.updateBody(body, dt));
-    
-    for (let i = 0; i < bodies.length; i++) {
-      for (let j = i + 1; j < bodies.length; j++) {
-        this.resolveCollision(bodies[i], bodies[j]);
+  private static createEmptyStats(): PhysicsStats {
+    return {
+      bodies: 0,
+      steps: 0,
+      bruteForcePairs: 0,
+      candidatePairs: 0,
+      skippedPairs: 0,
+      testedPairs: 0,
+      sweepQueries: 0
+    };
+  }
+
+  /**
+   * 获取最近一帧（一次 update / runSteps 调用）的统计数据
+   */
+  public getFrameStats(): PhysicsStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * 更新环境参数（重力、空气阻力）
+   */
+  public setEnvironment(gravity: Vector, airResistance: number): void {
+    this.config.gravity = { x: gravity.x, y: gravity.y };
+    this.config.airResistance = airResistance;
+  }
+
+  /**
+   * 设置边界模式
+   * @param margin 开放边缘的缓冲带宽度，省略时保持原值
+   */
+  public setBoundaryMode(mode: BoundaryMode, margin?: number): void {
+    this.config.boundaryMode = mode;
+    if (margin !== undefined) this.config.boundaryMargin = margin;
+  }
+
+  /**
+   * 设置圆形场地，null 恢复为屏幕矩形；圆形场地不支持绕回，按出界淘汰处理
+   */
+  public setBoundaryRing(ring: RingBoundary | null): void {
+    this.ring = ring ? { ...ring } : null;
+  }
+
+  public getBoundaryRing(): RingBoundary | null {
+    return this.ring;
+  }
+
+  public getConfig(): PhysicsConfig {
+    return { ...this.config, gravity: { ...this.config.gravity } };
+  }
+
+  // 主更新循环：按墙钟时间累加，以固定步长推进模拟
+  public update(bodies: PhysicsBody[], dt: number): number {
+    const h = this.config.fixedTimeStep;
+    this.stats = PhysicsEngine.createEmptyStats();
+    this.accumulator += Math.max(0, dt);
+
+    let steps = 0;
+    while (this.accumulator + STEP_EPSILON >= h && steps < this.config.maxSubSteps) {
+      this.step(bodies);
+      this.accumulator -= h;
+      steps++;
+    }
+
+    // 追不上时丢弃积压时间，保持画面响应
+    if (steps >= this.config.maxSubSteps && this.accumulator >= h) {
+      this.accumulator = 0;
+    }
+
+    this.alpha = Math.max(0, Math.min(1, this.accumulator / h));
+    return this.alpha;
+  }
+
+  /**
+   * 确定性推进指定步数，不受墙钟影响（用于回放、测试和预测）
+   */
+  public runSteps(bodies: PhysicsBody[], count: number): void {
+    this.stats = PhysicsEngine.createEmptyStats();
+    for (let i = 0; i < count; i++) {
+      this.step(bodies);
+    }
+  }
+
+  /**
+   * 清空累加器（新回合或暂停恢复时调用）
+   */
+  public resetAccumulator(): void {
+    this.accumulator = 0;
+    this.alpha = 0;
+  }
+
+  /**
+   * 已执行的固定步总数
+   */
+  public getStepCount(): number {
+    return this.stepCount;
+  }
+
+  /**
+   * 复制一个无副作用的引擎（相同边界、参数、地面区域和模拟时间），
+   * 不带任何事件订阅，供轨迹预测等试算使用
+   */
+  public clone(): PhysicsEngine {
+    const engine = new PhysicsEngine(this.bounds.width, this.bounds.height, this.getConfig());
+    engine.setSurfaceZones(this.zones);
+    engine.setBoundaryRing(this.ring);
+    engine.setForceFields(this.fields);
+    engine.setSimulationTime(this.simTime);
+    return engine;
+  }
+
+  /**
+   * 设置地面材质区域（后加入的区域覆盖先加入的）
+   */
+  public setSurfaceZones(zones: SurfaceZone[]): void {
+    this.zones = zones.slice();
+  }
+
+  public getSurfaceZones(): SurfaceZone[] {
+    return this.zones.slice();
+  }
+
+  /**
+   * 设置力场（风带、吸引/排斥点、旋涡），只作用于弹珠
+   */
+  public setForceFields(fields: ForceField[]): void {
+    this.fields = fields.slice();
+  }
+
+  public getForceFields(): ForceField[] {
+    return this.fields.slice();
+  }
+
+  /**
+   * 获取某点所在地面区域的材质，不在任何区域内时返回 null
+   */
+  public getSurfaceMaterialAt(x: number, y: number): Material | null {
+    for (let i = this.zones.length - 1; i >= 0; i--) {
+      const zone = this.zones[i];
+      if (zone.shape === 'circle') {
+        const dx = x - zone.x, dy = y - zone.y, r = zone.radius || 0;
+        if (dx * dx + dy * dy <= r * r) return this.materials.get(zone.material);
+      } else if (x >= zone.x && x <= zone.x + (zone.width || 0) &&
+        y >= zone.y && y <= zone.y + (zone.height || 0)) {
+        return this.materials.get(zone.material);
       }
     }
+    return null;
+  }
+
+  /**
+   * 模拟时间（秒），只随固定步推进
+   */
+  public getSimulationTime(): number {
+    return this.simTime;
+  }
+
+  public setSimulationTime(time: number): void {
+    this.simTime = time;
+  }
+
+  /**
+   * 获取物体的渲染插值位置
+   */
+  public getInterpolatedPosition(body: PhysicsBody): Vector {
+    if ((body.isStatic && !body.isKinematic) || body.prevX === undefined || body.prevY === undefined) {
+      return { x: body.x, y: body.y };
+    }
+
+    return {
+      x: body.prevX + (body.x - body.prevX) * this.alpha,
+      y: body.prevY + (body.y - body.prevY) * this.alpha
+    };
+  }
+
+  // 单个固定步
+  private step(bodies: PhysicsBody[]): void {
+    const h = this.config.fixedTimeStep;
+
+    // 运动学物体先移动到本步末的姿态，其速度用于碰撞响应
+    bodies.forEach(body => {
+      if (!body.isKinematic) return;
+      body.prevX = body.x;
+      body.prevY = body.y;
+      stepKinematicBody(body, this.simTime, h);
+    });
+
+    // 宽相位：包围盒按本步位移扩展，供连续碰撞检测查询
+    this.buildGrid(bodies, h);
+    bodies.forEach(body => {
+      if (body.isKinematic || body.isOutOfBounds || body.capturedBy) return;
+      body.prevX = body.x;
+      body.prevY = body.y;
+
+      // 外部直接赋予速度（如击球）时唤醒
+      if (body.isSleeping && (body.vx !== 0 || body.vy !== 0 || body.angularVelocity)) {
+        this.wakeBody(body);
+      }
+      if (body.isSleeping) return;
+
+      this.updateBody(body, h);
+    });
+
+    // 离散阶段：以移动后的位置重建网格，只检测候选对
+    this.buildGrid(bodies, 0);
+    const pairs = this.grid.getPairs();
+    this.stats.candidatePairs += pairs.length;
+    pairs.forEach(pair => {
+      if (this.shouldTestPair(pair[0], pair[1])) {
+        this.stats.testedPairs++;
+        this.resolveCollision(pair[0], pair[1]);
+      } else {
+        this.stats.skippedPairs++;
+      }
+    });
+
+    this.updateSleepStates(bodies, h);
+    this.flushContacts();
+
+    this.stats.bodies = bodies.length;
+    this.stats.bruteForcePairs += bodies.length * (bodies.length - 1) / 2;
+    this.stats.steps++;
+    this.stepCount++;
+    this.simTime += h;
+  }
+
+  private buildGrid(bodies: PhysicsBody[], dt: number): void {
+    this.grid.clear();
+    bodies.forEach(body => this.grid.insert(body, this.getBodyAABB(body, dt)));
+  }
+
+  // 静态-静态、静态-休眠、休眠-休眠的组合不可能产生新的碰撞；
+  // 运动学物体可能撞上休眠物体，但与静态物体之间互不响应
+  private shouldTestPair(a: PhysicsBody, b: PhysicsBody): boolean {
+    if (a.isDisabled || b.isDisabled) return false;
+    if (a.isStatic && b.isStatic) return false;
+    const aInert = (a.isStatic && !a.isKinematic) || !!a.isSleeping;
+    const bInert = (b.isStatic && !b.isKinematic) || !!b.isSleeping;
+    return !(aInert && bInert);
+  }
+
+  /**
+   * 获取物体包围盒；dt > 0 时按该时长内的位移扩展
+   */
+  public getBodyAABB(body: PhysicsBody, dt: number = 0): AABB {
+    let box: AABB;
+    if (body.type === 'circle' || body.type === 'hole') {
+      const r = body.radius || 0;
+      box = { minX: body.x - r, minY: body.y - r, maxX: body.x + r, maxY: body.y + r };
+    } else if (body.type === 'segment') {
+      const r = body.radius || 0;
+      const x2 = body.x2 !== undefined ? body.x2 : body.x;
+      const y2 = body.y2 !== undefined ? body.y2 : body.y;
+      box = {
+        minX: Math.min(body.x, x2) - r, minY: Math.min(body.y, y2) - r,
+        maxX: Math.max(body.x, x2) + r, maxY: Math.max(body.y, y2) + r
+      };
+    } else if (this.isAxisAligned(body)) {
+      box = { minX: body.x, minY: body.y, maxX: body.x + (body.width || 0), maxY: body.y + (body.height || 0) };
+    } else {
+      const vertices = this.getWorldVertices(body);
+      box = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+      vertices.forEach(v => {
+        box.minX = Math.min(box.minX, v.x); box.maxX = Math.max(box.maxX, v.x);
+        box.minY = Math.min(box.minY, v.y); box.maxY = Math.max(box.maxY, v.y);
+      });
+    }
+
+    if (dt > 0 && !body.isStatic) {
+      const dx = body.vx * dt, dy = body.vy * dt;
+      box.minX += Math.min(0, dx); box.maxX += Math.max(0, dx);
+      box.minY += Math.min(0, dy); box.maxY += Math.max(0, dy);
+    }
+
+    return box;
+  }
+
+  /**
+   * 获取矩形或多边形的世界坐标顶点
+   */
+  public getWorldVertices(body: PhysicsBody): Vector[] {
+    if (body.type === 'rectangle') {
+      return getRectVertices(body.x, body.y, body.width || 0, body.height || 0, body.angle || 0);
+    }
+    if (body.type === 'polygon') {
+      return transformVertices(body.vertices || [], body.x, body.y, body.angle || 0);
+    }
+    return [];
+  }
+
+  // 未旋转的矩形走轴对齐快速路径
+  private isAxisAligned(body: PhysicsBody): boolean {
+    return body.type === 'rectangle' && !body.angle;
   }
 
   // 更新单个物体
   private updateBody(body: PhysicsBody, dt: number): void {
     if (body.isStatic) return;
 
-    body.x += body.vx * dt;
-    body.y += body.vy * dt;
+    // 外力与空气阻力按固定步施加，与帧率无关
+    body.vx += this.config.gravity.x * dt;
+    body.vy += this.config.gravity.y * dt;
+    if (body.type === 'circle') this.applyForceFields(body, dt);
+    body.vx *= this.config.airResistance;
+    body.vy *= this.config.airResistance;
 
-    const speed = Math.sqrt(body.vx * body.vx + body.vy * body.vy);
-    if (speed > 0.5) {
-      const frictionScalar = Math.pow(1 - body.friction, dt * 60);
-      body.vx *= frictionScalar;
-      body.vy *= frictionScalar;
-    } else {
-      body.vx = 0;
-      body.vy = 0;
+    if (body.type === 'circle' && body.angularVelocity) {
+      this.applySpin(body, dt);
     }
 
+    this.integrateSwept(body, dt);
+
+    // 地面区域的材质替代物体自身的滚动摩擦
+    const surface = this.getSurfaceMaterialAt(body.x, body.y);
+    const friction = surface && surface.rollingFriction !== undefined ? surface.rollingFriction : body.friction;
+
+    const frictionScalar = Math.pow(1 - friction, dt * 60);
+    body.vx *= frictionScalar;
+    body.vy *= frictionScalar;
+
     this.checkWorldBounds(body);
   }
 
+  /**
+   * 单位质量动能（弹珠按圆盘计入侧旋的转动动能）
+   */
+  public getKineticEnergy(body: PhysicsBody): number {
+    let energy = 0.5 * (body.vx * body.vx + body.vy * body.vy);
+    if (body.type === 'circle' && body.angularVelocity) {
+      const r = body.radius || 0;
+      energy += 0.25 * r * r * body.angularVelocity * body.angularVelocity;
+    }
+    return energy;
+  }
+
+  /**
+   * 所有可动物体是否都已休眠
+   */
+  public isAtRest(bodies: PhysicsBody[]): boolean {
+    return bodies.every(body => body.isStatic || !!body.isSleeping);
+  }
+
+  public wakeBody(body: PhysicsBody): void {
+    if (body.isStatic) return;
+    body.isSleeping = false;
+    body.sleepTimer = 0;
+  }
+
+  private sleepBody(body: PhysicsBody): void {
+    body.isSleeping = true;
+    body.vx = 0;
+    body.vy = 0;
+    body.angularVelocity = 0;
+  }
+
+  // 能量持续低于阈值达到 sleepTime 后休眠，并在全体静止时通知
+  private updateSleepStates(bodies: PhysicsBody[], dt: number): void {
+    bodies.forEach(body => {
+      if (body.isStatic || body.isSleeping) return;
+
+      if (this.getKineticEnergy(body) < this.config.sleepEnergyThreshold) {
+        body.sleepTimer = (body.sleepTimer || 0) + dt;
+        if (body.sleepTimer + STEP_EPSILON >= this.config.sleepTime) {
+          this.sleepBody(body);
+          // 停在开放边缘的缓冲带里同样算出界
+          if (this.config.boundaryMode === 'open' && body.type === 'circle' && this.isOutsideField(body)) {
+            this.eliminateBody(body);
+          }
+        }
+      } else {
+        body.sleepTimer = 0;
+      }
+    });
+
+    const atRest = this.isAtRest(bodies);
+    if (atRest && !this.atRest && this.onAllBodiesAtRest) {
+      this.onAllBodiesAtRest();
+    }
+    this.atRest = atRest;
+  }
+
+  // 碰撞时的接近速度足以打破休眠才唤醒，避免静止接触反复唤醒
+  private wakeOnContact(a: PhysicsBody, b: PhysicsBody, approachSpeed: number): void {
+    if (0.5 * approachSpeed * approachSpeed < this.config.sleepEnergyThreshold) return;
+    if (a.isSleeping) this.wakeBody(a);
+    if (b.isSleeping) this.wakeBody(b);
+  }
+
+  // 叠加弹珠所在位置的全部力场
+  private applyForceFields(body: PhysicsBody, dt: number): void {
+    this.fields.forEach(field => {
+      const a = getFieldAcceleration(field, body.x, body.y);
+      body.vx += a.x * dt;
+      body.vy += a.y * dt;
+    });
+  }
+
+  // 侧旋：施加垂直于速度的力使路径弯曲（正转速向顺时针方向弯），并逐步衰减
+  private applySpin(body: PhysicsBody, dt: number): void {
+    const omega = body.angularVelocity || 0;
+    const k = this.config.spinCurve * omega * dt;
+    const vx = body.vx;
+    body.vx -= k * body.vy;
+    body.vy += k * vx;
+    body.angle = (body.angle || 0) + omega * dt;
+    body.angularVelocity = omega * Math.pow(1 - this.config.spinDamping, dt * 60);
+  }
+
+  /**
+   * 按撞击时刻分段推进：快速弹珠先移动到首个接触点，
+   * 处理碰撞后用剩余时间继续，避免穿透薄障碍或越过对手弹珠
+   */
+  private integrateSwept(body: PhysicsBody, dt: number): void {
+    let remaining = dt;
+
+    for (let i = 0; i <= this.config.maxCcdIterations && remaining > 0; i++) {
+      const dx = body.vx * remaining;
+      const dy = body.vy * remaining;
+      const r = body.radius || 0;
+      const motion = Math.sqrt(dx * dx + dy * dy);
+
+      // 慢速或非圆形物体直接积分，由离散检测处理
+      if (body.type !== 'circle' || motion <= r * this.config.ccdMotionThreshold ||
+        i === this.config.maxCcdIterations) {
+        body.x += dx;
+        body.y += dy;
+        return;
+      }
+
+      const hit = this.findEarliestImpact(body, { x: dx, y: dy });
+      if (!hit) {
+        body.x += dx;
+        body.y += dy;
+        return;
+      }
+
+      const travel = Math.max(0, hit.t - CONTACT_SKIN / motion);
+      body.x += dx * travel;
+      body.y += dy * travel;
+      this.respondToImpact(body, hit);
+      remaining *= 1 - hit.t;
+    }
+  }
+
+  // 在本步位移内寻找最早的撞击（弹珠、障碍物、世界边界）
+  private findEarliestImpact(body: PhysicsBody, d: Vector): ImpactCandidate | null {
+    const p = { x: body.x, y: body.y };
+    const r = body.radius || 0;
+    const sweptBox: AABB = {
+      minX: p.x - r + Math.min(0, d.x), maxX: p.x + r + Math.max(0, d.x),
+      minY: p.y - r + Math.min(0, d.y), maxY: p.y + r + Math.max(0, d.y)
+    };
+    const nearby = this.grid.query(sweptBox);
+    this.stats.sweepQueries++;
+
+    let best: ImpactCandidate | null = null;
+    const consider = (hit: ImpactCandidate | null) => {
+      // 只接受迎面接近的接触
+      if (hit && d.x * hit.nx + d.y * hit.ny < 0 && (!best || hit.t < best.t)) best = hit;
+    };
+
+    nearby.forEach(other => {
+      // 洞口不阻挡弹珠，在离散阶段处理
+      if (other === body || other.isDisabled || other.type === 'hole') return;
+
+      if (other.type === 'circle') {
+        const hit = sweepCircleCircle(p, d, other, r + (other.radius || 0));
+        consider(hit ? { ...hit, kind: 'body', other } : null);
+      } else if (this.isAxisAligned(other)) {
+        const hit = sweepCircleRect(p, d, r, {
+          x: other.x, y: other.y, width: other.width || 0, height: other.height || 0
+        });
+        consider(hit ? { ...hit, kind: 'body', other } : null);
+      } else if (other.type === 'segment') {
+        const end = { x: other.x2 !== undefined ? other.x2 : other.x, y: other.y2 !== undefined ? other.y2 : other.y };
+        const hit = sweepCircleSegment(p, d, other, end, r + (other.radius || 0));
+        consider(hit ? { ...hit, kind: 'body', other } : null);
+      } else {
+        const hit = sweepCircleEdges(p, d, r, this.getWorldVertices(other));
+        consider(hit ? { ...hit, kind: 'body', other } : null);
+      }
+    });
+
+    // 世界边界：圆心被限制在 [r, size - r]；其他边界模式在积分后处理
+    if (this.config.boundaryMode !== 'reflect') return best;
+    const walls: { limit: number; pos: number; delta: number; axis: 'x' | 'y'; normal: number }[] = [
+      { limit: r, pos: p.x, delta: d.x, axis: 'x', normal: 1 },
+      { limit: this.bounds.width - r, pos: p.x, delta: d.x, axis: 'x', normal: -1 },
+      { limit: r, pos: p.y, delta: d.y, axis: 'y', normal: 1 },
+      { limit: this.bounds.height - r, pos: p.y, delta: d.y, axis: 'y', normal: -1 }
+    ];
+    walls.forEach(wall => {
+      if (wall.delta === 0) return;
+      const t = (wall.limit - wall.pos) / wall.delta;
+      if (t < 0 || t > 1) return;
+      consider({
+        t,
+        nx: wall.axis === 'x' ? wall.normal : 0,
+        ny: wall.axis === 'y' ? wall.normal : 0,
+        kind: 'wall',
+        axis: wall.axis
+      });
+    });
+
+    return best;
+  }
+
+  // 处理扫掠得到的撞击
+  private respondToImpact(body: PhysicsBody, hit: ImpactCandidate): void {
+    if (hit.kind === 'wall') {
+      const axis = hit.axis as 'x' | 'y';
+      this.reflect(body, axis, axis === 'x' ? hit.nx : hit.ny);
+      return;
+    }
+
+    const other = hit.other as PhysicsBody;
+    const r = body.radius || 0;
+    const point = { x: body.x - hit.nx * r, y: body.y - hit.ny * r };
+    const normal = { x: hit.nx, y: hit.ny };
+
+    if (other.type === 'circle' || (!other.isStatic && (body.passThroughObstacleCount || 0) === 0)) {
+      // 法线由 body 指向 other
+      const impulse = this.calculateImpulse(body, other, -hit.nx, -hit.ny);
+      this.recordContact(body, other, point, normal, impulse);
+    } else if ((body.passThroughObstacleCount || 0) > 0) {
+      this.recordContact(body, other, point, normal, 0);
+      this.passThroughObstacle(body, other);
+    } else {
+      this.recordContact(body, other, point, normal, this.bounceOffObstacle(body, other, hit.nx, hit.ny));
+    }
+  }
+
   // 检测两点距离是否在阈值内（核心玩法："一扎"距离）
   public checkDistance(b1: PhysicsBody, b2: PhysicsBody, threshold: number): boolean {
     const dx = b1.x - b2.x;
@@ -85,20 +735,189 @@ export class PhysicsEngine {
 
   // 边界处理
   private checkWorldBounds(body: PhysicsBody): void {
+    if (body.type !== 'circle') {
+      this.checkShapeWorldBounds(body);
+      return;
+    }
+
+    switch (this.config.boundaryMode) {
+      case 'lethal':
+        if (this.isOutsideField(body)) this.eliminateBody(body);
+        return;
+      case 'wrap':
+        if (!this.ring) this.wrapAround(body);
+        else if (this.isOutsideField(body)) this.eliminateBody(body);
+        return;
+      case 'open':
+        this.applyOpenEdge(body);
+        return;
+    }
+
+    if (this.ring) this.reflectOffRing(body);
+
     const r = body.radius || 0;
-    if (body.x - r < 0) { body.x = r; this.reflect(body, 'x'); }
-    else if (body.x + r > this.bounds.width) { body.x = this.bounds.width - r; this.reflect(body, 'x'); }
+    if (body.x - r < 0) { body.x = r; this.reflect(body, 'x', 1); }
+    else if (body.x + r > this.bounds.width) { body.x = this.bounds.width - r; this.reflect(body, 'x', -1); }
     
-    if (body.y - r < 0) { body.y = r; this.reflect(body, 'y'); }
-    else if (body.y + r > this.bounds.height) { body.y = this.bounds.height - r; this.reflect(body, 'y'); }
+    if (body.y - r < 0) { body.y = r; this.reflect(body, 'y', 1); }
+    else if (body.y + r > this.bounds.height) { body.y = this.bounds.height - r; this.reflect(body, 'y', -1); }
+  }
+
+  // 圆心离开场地的距离，场内为负值或 0
+  private getOutsideDistance(body: PhysicsBody): number {
+    if (this.ring) {
+      const dx = body.x - this.ring.x;
+      const dy = body.y - this.ring.y;
+      return Math.sqrt(dx * dx + dy * dy) - this.ring.radius;
+    }
+    return Math.max(-body.x, body.x - this.bounds.width, -body.y, body.y - this.bounds.height);
+  }
+
+  private isOutsideField(body: PhysicsBody): boolean {
+    return this.getOutsideDistance(body) > 0;
+  }
+
+  // 圆形场地的围墙：圆心被限制在 radius - r 以内，沿径向反弹
+  private reflectOffRing(body: PhysicsBody): void {
+    const ring = this.ring as RingBoundary;
+    const dx = body.x - ring.x;
+    const dy = body.y - ring.y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+    const limit = ring.radius - (body.radius || 0);
+    if (dist <= limit || dist === 0) return;
+
+    // 法线指向圆心
+    const nx = -dx / dist;
+    const ny = -dy / dist;
+    body.x = ring.x - nx * limit;
+    body.y = ring.y - ny * limit;
+
+    const vn = body.vx * nx + body.vy * ny;
+    if (vn >= 0) return;
+    const change = (1 + body.restitution * this.consumeBounceBonus(body)) * vn;
+    body.vx -= change * nx;
+    body.vy -= change * ny;
+    this.recordContact(body, null, { x: ring.x - nx * ring.radius, y: ring.y - ny * ring.radius },
+      { x: nx, y: ny }, body.mass * Math.abs(change), 'ring');
+  }
+
+  // 出界淘汰：停止运动并退出碰撞
+  private eliminateBody(body: PhysicsBody): void {
+    body.isOutOfBounds = true;
+    body.isDisabled = true;
+    this.sleepBody(body);
+    if (this.onBodyOutOfBounds) this.onBodyOutOfBounds(body);
+  }
+
+  // 圆心越过边缘后从对侧出现，插值起点一并平移避免横穿屏幕
+  private wrapAround(body: PhysicsBody): void {
+    const { width, height } = this.bounds;
+    const shiftX = body.x < 0 ? width : body.x > width ? -width : 0;
+    const shiftY = body.y < 0 ? height : body.y > height ? -height : 0;
+    body.x += shiftX;
+    body.y += shiftY;
+    if (body.prevX !== undefined) body.prevX += shiftX;
+    if (body.prevY !== undefined) body.prevY += shiftY;
   }
 
-  private reflect(body: PhysicsBody, axis: 'x' | 'y'): void {
+  // 开放边缘：缓冲带内快速减速，越过缓冲带即出界
+  private applyOpenEdge(body: PhysicsBody): void {
+    if (!this.isOutsideField(body)) return;
+
+    if (this.getOutsideDistance(body) > this.config.boundaryMargin) {
+      this.eliminateBody(body);
+      return;
+    }
+
+    const drag = Math.pow(1 - this.config.boundaryDrag, this.config.fixedTimeStep * 60);
+    body.vx *= drag;
+    body.vy *= drag;
+  }
+
+  // 可推动障碍物按包围盒限制在世界内
+  private checkShapeWorldBounds(body: PhysicsBody): void {
+    const box = this.getBodyAABB(body);
+    if (box.minX < 0) { body.x -= box.minX; this.reflect(body, 'x', 1); }
+    else if (box.maxX > this.bounds.width) { body.x -= box.maxX - this.bounds.width; this.reflect(body, 'x', -1); }
+
+    if (box.minY < 0) { body.y -= box.minY; this.reflect(body, 'y', 1); }
+    else if (box.maxY > this.bounds.height) { body.y -= box.maxY - this.bounds.height; this.reflect(body, 'y', -1); }
+  }
+
+  // 世界边界反弹；normal 为边界法线在该轴上的符号（指向场内）
+  private reflect(body: PhysicsBody, axis: 'x' | 'y', normal: number): void {
     const bounceMultiplier = this.consumeBounceBonus(body);
+    const before = axis === 'x' ? body.vx : body.vy;
     if (axis === 'x') body.vx = -body.vx * body.restitution * bounceMultiplier;
     else body.vy = -body.vy * body.restitution * bounceMultiplier;
-    // 触发边界碰撞事件（可选）
-    if(body.onCollide) body.onCollide({ ...body, id: 'wall' } as PhysicsBody, Math.abs(axis === 'x' ? body.vx : body.vy));
+    const after = axis === 'x' ? body.vx : body.vy;
+
+    const box = this.getBodyAABB(body);
+    const point = axis === 'x'
+      ? { x: normal > 0 ? 0 : this.bounds.width, y: (box.minY + box.maxY) / 2 }
+      : { x: (box.minX + box.maxX) / 2, y: normal > 0 ? 0 : this.bounds.height };
+    this.recordContact(body, null, point,
+      { x: axis === 'x' ? normal : 0, y: axis === 'y' ? normal : 0 },
+      body.mass * Math.abs(after - before), `${axis}${normal > 0 ? '-' : '+'}`);
+  }
+
+  /**
+   * 记录本步的接触（同一对物体在一步内多次接触时累加冲量）
+   * @param wallSide 世界边界的哪一侧，b 为 null 时使用
+   */
+  private recordContact(a: PhysicsBody, b: PhysicsBody | null, point: Vector, normal: Vector,
+    impulse: number, wallSide: string = ''): void {
+    const key = b
+      ? (a.id < b.id ? `${a.id}|${b.id}` : `${b.id}|${a.id}`)
+      : `${a.id}|wall:${wallSide}`;
+
+    const existing = this.stepContacts.get(key);
+    if (existing) {
+      existing.impulse += impulse;
+      existing.point = { x: point.x, y: point.y };
+      existing.normal = { x: normal.x, y: normal.y };
+      return;
+    }
+
+    this.stepContacts.set(key, {
+      phase: 'begin',
+      a,
+      b,
+      surface: b ? 'body' : 'wall',
+      point: { x: point.x, y: point.y },
+      normal: { x: normal.x, y: normal.y },
+      impulse,
+      material: (b && b.material) || DEFAULT_MATERIAL_ID,
+      step: this.stepCount
+    });
+  }
+
+  // 与上一步对比，发出 begin / persist / end 事件
+  private flushContacts(): void {
+    const current = this.stepContacts;
+
+    current.forEach((event, key) => {
+      event.phase = this.activeContacts.has(key) ? 'persist' : 'begin';
+      this.contacts.emit(event);
+    });
+
+    this.activeContacts.forEach((event, key) => {
+      if (current.has(key)) return;
+      // 休眠后不再检测的接触视为仍然保持，不发 end
+      if (this.isRestingContact(event)) {
+        current.set(key, event);
+        return;
+      }
+      this.contacts.emit({ ...event, phase: 'end', impulse: 0, step: this.stepCount });
+    });
+
+    this.activeContacts = current;
+    this.stepContacts = new Map();
+  }
+
+  private isRestingContact(event: ContactEvent): boolean {
+    const inert = (body: PhysicsBody) => !body.isDisabled && (!!body.isSleeping || (body.isStatic && !body.isKinematic));
+    return inert(event.a) && (!event.b || inert(event.b));
   }
 
   private consumeBounceBonus(body: PhysicsBody): number {
@@ -112,15 +931,75 @@ export class PhysicsEngine {
 
   // 解决碰撞分发
   private resolveCollision(b1: PhysicsBody, b2: PhysicsBody): void {
-    if (b1.type === 'circle' && b2.type === 'circle') {
+    if (b1.type === 'hole' || b2.type === 'hole') {
+      const hole = b1.type === 'hole' ? b1 : b2;
+      const other = hole === b1 ? b2 : b1;
+      if (other.type === 'circle') this.resolveHole(other, hole);
+    } else if (b1.type === 'circle' && b2.type === 'circle') {
       this.resolveCircleCollision(b1, b2);
-    } else if (b1.type === 'circle' && b2.type === 'rectangle') {
-      this.resolveCircleRectCollision(b1, b2);
-    } else if (b1.type === 'rectangle' && b2.type === 'circle') {
-      this.resolveCircleRectCollision(b2, b1);
+    } else if (b1.type === 'circle') {
+      this.resolveCircleShapeCollision(b1, b2);
+    } else if (b2.type === 'circle') {
+      this.resolveCircleShapeCollision(b2, b1);
+    } else if (!b1.isStatic || !b2.isStatic) {
+      this.resolveShapeShapeCollision(b1, b2);
+    }
+  }
+
+  // 洞口：圆心进入洞口且速度足够慢时被吃进；较快的弹珠被拉向洞心，偏转后从另一侧滚出
+  private resolveHole(ball: PhysicsBody, hole: PhysicsBody): void {
+    const dx = hole.x - ball.x;
+    const dy = hole.y - ball.y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+    if (dist > (hole.radius || 0)) return;
+
+    const speed = Math.sqrt(ball.vx * ball.vx + ball.vy * ball.vy);
+    if (speed <= (hole.captureSpeed || 0)) {
+      ball.capturedBy = hole.id;
+      ball.isDisabled = true;
+      ball.x = hole.x;
+      ball.y = hole.y;
+      this.sleepBody(ball);
+      if (this.onBodyCaptured) this.onBodyCaptured(ball, hole);
+      return;
+    }
+
+    if (dist > 0) {
+      const pull = (hole.rimPull || 0) * this.config.fixedTimeStep;
+      ball.vx += dx / dist * pull;
+      ball.vy += dy / dist * pull;
+    }
+  }
+
+  // 两个非圆形状（至少一个可推动）按分离轴检测
+  private resolveShapeShapeCollision(b1: PhysicsBody, b2: PhysicsBody): void {
+    const contact = polygonVsPolygon(this.getCollisionPolygon(b1), this.getCollisionPolygon(b2));
+    if (!contact) return;
+
+    // 法线由 b1 指向 b2
+    const nx = -contact.nx, ny = -contact.ny;
+    this.resolveOverlap(b1, b2, nx, ny, contact.depth);
+    const impulse = this.calculateImpulse(b1, b2, nx, ny);
+
+    // 接触点取两包围盒中心的中点；事件主体为可动的一方
+    const box1 = this.getBodyAABB(b1), box2 = this.getBodyAABB(b2);
+    const point = { x: (box1.minX + box1.maxX + box2.minX + box2.maxX) / 4, y: (box1.minY + box1.maxY + box2.minY + box2.maxY) / 4 };
+    if (b1.isStatic) {
+      this.recordContact(b2, b1, point, { x: nx, y: ny }, impulse);
+    } else {
+      this.recordContact(b1, b2, point, { x: -nx, y: -ny }, impulse);
     }
   }
 
+  // 非圆形状的碰撞多边形（线段墙近似为矩形）
+  private getCollisionPolygon(body: PhysicsBody): Vector[] {
+    if (body.type === 'segment') {
+      const end = { x: body.x2 !== undefined ? body.x2 : body.x, y: body.y2 !== undefined ? body.y2 : body.y };
+      return getSegmentVertices(body, end, body.radius || 0);
+    }
+    return this.getWorldVertices(body);
+  }
+
   // 圆形碰撞逻辑
   private resolveCircleCollision(b1: PhysicsBody, b2: PhysicsBody): void {
     const dx = b2.x - b1.x, dy = b2.y - b1.y;
@@ -132,16 +1011,21 @@ export class PhysicsEngine {
       const nx = dx / dist, ny = dy / dist;
       
       this.resolveOverlap(b1, b2, nx, ny, radSum - dist);
-      this.calculateImpulse(b1, b2, nx, ny);
+      const impulse = this.calculateImpulse(b1, b2, nx, ny);
+      const r1 = b1.radius || 0;
+      this.recordContact(b1, b2, { x: b1.x + nx * r1, y: b1.y + ny * r1 }, { x: -nx, y: -ny }, impulse);
     }
   }
 
   // 修正重叠
   private resolveOverlap(b1: PhysicsBody, b2: PhysicsBody, nx: number, ny: number, overlap: number): void {
-    const factor = 0.5 * overlap;
     if (!b1.isStatic && !b2.isStatic) {
-      b1.x -= nx * factor; b1.y -= ny * factor;
-      b2.x += nx * factor; b2.y += ny * factor;
+      // 按质量反比分摊，重的物体移动得少
+      const invM1 = 1 / b1.mass, invM2 = 1 / b2.mass;
+      const share1 = overlap * invM1 / (invM1 + invM2);
+      const share2 = overlap - share1;
+      b1.x -= nx * share1; b1.y -= ny * share1;
+      b2.x += nx * share2; b2.y += ny * share2;
     } else if (!b1.isStatic) {
       b1.x -= nx * overlap; b1.y -= ny * overlap;
     } else if (!b2.isStatic) {
@@ -150,13 +1034,16 @@ export class PhysicsEngine {
   }
 
   // 计算物理冲量
-  private calculateImpulse(b1: PhysicsBody, b2: PhysicsBody, nx: number, ny: number): void {
+  // 返回法向冲量大小（正在分离时为 0）
+  private calculateImpulse(b1: PhysicsBody, b2: PhysicsBody, nx: number, ny: number): number {
     const dvx = b2.vx - b1.vx, dvy = b2.vy - b1.vy;
     const velNormal = dvx * nx + dvy * ny;
 
-    if (velNormal > 0) return; // 正在分离
+    if (velNormal > 0) return 0; // 正在分离
+    this.wakeOnContact(b1, b2, -velNormal);
 
-    const e = Math.min(b1.restitution, b2.restitution);
+    const contact = this.getContactMaterial(b1, b2, Math.min(b1.restitution, b2.restitution));
+    const e = contact.restitution;
     const invM1 = b1.isStatic ? 0 : 1 / b1.mass;
     const invM2 = b2.isStatic ? 0 : 1 / b2.mass;
     
@@ -166,59 +1053,183 @@ export class PhysicsEngine {
     if (!b1.isStatic) { b1.vx -= ix * invM1; b1.vy -= iy * invM1; }
     if (!b2.isStatic) { b2.vx += ix * invM2; b2.vy += iy * invM2; }
 
-    const force = Math.abs(j);
-    if (b1.onCollide) b1.onCollide(b2, force);
-    if (b2.onCollide) b2.onCollide(b1, force);
-  }
+    // 涉及弹珠的擦碰传递旋转
+    if (b1.type === 'circle' || b2.type === 'circle') {
+      this.applyContactFriction(b1, b2, -nx, -ny, j, contact.surfaceFriction);
+    }
 
-  // 圆矩碰撞
-  private resolveCircleRectCollision(c: PhysicsBody, r: PhysicsBody): void {
-    const closestX = Math.max(r.x, Math.min(c.x, r.x + (r.width || 0)));
-    const closestY = Math.max(r.y, Math.min(c.y, r.y + (r.height || 0)));
+    return Math.abs(j);
+  }
 
-    const dx = c.x - closestX, dy = c.y - closestY;
-    const distSq = dx * dx + dy * dy;
-    const rad = c.radius || 0;
+  // 圆与矩形/多边形/线段碰撞
+  private resolveCircleShapeCollision(c: PhysicsBody, r: PhysicsBody): void {
+    const contact = this.getShapeContact(c, r);
 
-    if (distSq < rad * rad && distSq > 0) {
-      const dist = Math.sqrt(distSq);
-      const nx = dx / dist, ny = dy / dist;
+    if (contact) {
+      const { nx, ny } = contact;
+      const rad = c.radius || 0;
+      const point = { x: c.x - nx * (rad - contact.depth), y: c.y - ny * (rad - contact.depth) };
+      const normal = { x: nx, y: ny };
 
       if ((c.passThroughObstacleCount || 0) > 0) {
-        c.passThroughObstacleCount = (c.passThroughObstacleCount || 0) - 1;
-
-        if (Math.abs(c.vx) >= Math.abs(c.vy)) {
-          if (c.vx >= 0) {
-            c.x = r.x + (r.width || 0) + rad + 1;
-          } else {
-            c.x = r.x - rad - 1;
-          }
-        } else {
-          if (c.vy >= 0) {
-            c.y = r.y + (r.height || 0) + rad + 1;
-          } else {
-            c.y = r.y - rad - 1;
-          }
-        }
+        this.recordContact(c, r, point, normal, 0);
+        this.passThroughObstacle(c, r);
+        return;
+      }
 
-        if (c.onCollide) c.onCollide(r, 0);
+      // 可推动障碍物：按质量分摊位移并交换冲量
+      if (!r.isStatic) {
+        this.resolveOverlap(c, r, -nx, -ny, contact.depth);
+        this.recordContact(c, r, point, normal, this.calculateImpulse(c, r, -nx, -ny));
         return;
       }
       
-      // 简化处理：仅反弹圆，假设矩形是静态障碍物
+      // 静态障碍物：仅反弹圆
       if (!c.isStatic) {
-        c.x += nx * (rad - dist);
-        c.y += ny * (rad - dist);
-        
-        // 简单的反射逻辑
-        const dot = c.vx * nx + c.vy * ny;
-        const bounceMultiplier = this.consumeBounceBonus(c);
-        c.vx -= 2 * dot * nx * c.restitution * bounceMultiplier;
-        c.vy -= 2 * dot * ny * c.restitution * bounceMultiplier;
-        
-        if (c.onCollide) c.onCollide(r, Math.abs(dot * 2));
+        c.x += nx * contact.depth;
+        c.y += ny * contact.depth;
+        this.recordContact(c, r, point, normal, this.bounceOffObstacle(c, r, nx, ny));
+      }
+    }
+  }
+
+  // 计算圆与非圆形状的接触法线和穿透深度
+  private getShapeContact(c: PhysicsBody, shape: PhysicsBody): Contact | null {
+    const rad = c.radius || 0;
+
+    if (this.isAxisAligned(shape)) {
+      const closestX = Math.max(shape.x, Math.min(c.x, shape.x + (shape.width || 0)));
+      const closestY = Math.max(shape.y, Math.min(c.y, shape.y + (shape.height || 0)));
+      const dx = c.x - closestX, dy = c.y - closestY;
+      const distSq = dx * dx + dy * dy;
+
+      if (distSq >= rad * rad || distSq === 0) return null;
+
+      const dist = Math.sqrt(distSq);
+      return { nx: dx / dist, ny: dy / dist, depth: rad - dist };
+    }
+
+    if (shape.type === 'segment') {
+      const end = { x: shape.x2 !== undefined ? shape.x2 : shape.x, y: shape.y2 !== undefined ? shape.y2 : shape.y };
+      return circleVsSegment(c, rad, shape, end, shape.radius || 0);
+    }
+
+    return circleVsPolygon(c, rad, this.getWorldVertices(shape));
+  }
+
+  // 穿障技能：沿主运动方向瞬移到障碍物另一侧
+  private passThroughObstacle(c: PhysicsBody, r: PhysicsBody): void {
+    const rad = c.radius || 0;
+    c.passThroughObstacleCount = (c.passThroughObstacleCount || 0) - 1;
+
+    if (!this.isAxisAligned(r)) {
+      // 斜向形状：沿速度方向移到形状投影之外
+      const speed = Math.sqrt(c.vx * c.vx + c.vy * c.vy) || 1;
+      const dirX = c.vx / speed, dirY = c.vy / speed;
+      const points = r.type === 'segment'
+        ? [{ x: r.x, y: r.y }, { x: r.x2 !== undefined ? r.x2 : r.x, y: r.y2 !== undefined ? r.y2 : r.y }]
+        : this.getWorldVertices(r);
+      const reach = rad + (r.type === 'segment' ? r.radius || 0 : 0) + 1;
+      const far = Math.max(...points.map(v => v.x * dirX + v.y * dirY));
+      const shift = far + reach - (c.x * dirX + c.y * dirY);
+      if (shift > 0) {
+        c.x += dirX * shift;
+        c.y += dirY * shift;
+      }
+    } else if (Math.abs(c.vx) >= Math.abs(c.vy)) {
+      if (c.vx >= 0) {
+        c.x = r.x + (r.width || 0) + rad + 1;
+      } else {
+        c.x = r.x - rad - 1;
+      }
+    } else {
+      if (c.vy >= 0) {
+        c.y = r.y + (r.height || 0) + rad + 1;
+      } else {
+        c.y = r.y - rad - 1;
       }
     }
+
+  }
+
+  // 圆沿法线 (nx, ny) 从静态或运动学障碍物反弹，按接触点的相对速度计算；返回法向冲量
+  private bounceOffObstacle(c: PhysicsBody, r: PhysicsBody, nx: number, ny: number): number {
+    const rad = c.radius || 0;
+    const surface = r.isKinematic ? getPointVelocity(r, c.x - nx * rad, c.y - ny * rad) : { x: 0, y: 0 };
+    const dot = (c.vx - surface.x) * nx + (c.vy - surface.y) * ny;
+    if (dot >= 0) return 0; // 已在分离
+    this.wakeOnContact(c, r, -dot);
+
+    const contact = this.getContactMaterial(c, r, c.restitution);
+    const bounceMultiplier = this.consumeBounceBonus(c);
+    const change = (1 + contact.restitution * bounceMultiplier) * dot;
+    c.vx -= change * nx;
+    c.vy -= change * ny;
+    const normalImpulse = c.mass * Math.abs(change);
+    this.applyContactFriction(c, r, nx, ny, normalImpulse, contact.surfaceFriction);
+    this.applySurfaceResponse(c, surface, nx, ny, contact);
+
+    return normalImpulse;
+  }
+
+  // 查询接触材质；双方都未指定材质时沿用物体自身的弹性
+  private getContactMaterial(a: PhysicsBody, b: PhysicsBody, restitution: number): ContactMaterial {
+    if (!a.material && !b.material) {
+      return { restitution, surfaceFriction: this.config.contactFriction, bounceBoost: 0, stickiness: 0 };
+    }
+    return this.materials.combine(a.material, b.material);
+  }
+
+  /**
+   * 接触点切向摩擦（库仑模型，|jt| ≤ μ·jn）：消除接触点的相对滑动，
+   * 弹珠按圆盘转动惯量 I = m·r²/2 获得或失去侧旋。法线 (nx, ny) 由 b 指向 a
+   */
+  private applyContactFriction(a: PhysicsBody, b: PhysicsBody, nx: number, ny: number, jn: number, mu: number): void {
+    if (mu <= 0 || jn <= 0) return;
+
+    const ra = a.type === 'circle' ? a.radius || 0 : 0;
+    const rb = b.type === 'circle' ? b.radius || 0 : 0;
+    const invMa = a.isStatic ? 0 : 1 / a.mass;
+    const invMb = b.isStatic ? 0 : 1 / b.mass;
+    // r² / I = 2 / m
+    const k = invMa + invMb + (ra > 0 ? 2 * invMa : 0) + (rb > 0 ? 2 * invMb : 0);
+    if (k === 0) return;
+
+    const wa = ra > 0 ? a.angularVelocity || 0 : 0;
+    const wb = rb > 0 ? b.angularVelocity || 0 : 0;
+    const va = { x: a.vx + wa * ra * ny, y: a.vy - wa * ra * nx };
+    const vb = b.isKinematic
+      ? getPointVelocity(b, a.x - nx * ra, a.y - ny * ra)
+      : { x: b.vx - wb * rb * ny, y: b.vy + wb * rb * nx };
+
+    const tx = -ny, ty = nx;
+    const slip = (va.x - vb.x) * tx + (va.y - vb.y) * ty;
+    const maxJt = mu * jn;
+    const jt = Math.max(-maxJt, Math.min(maxJt, -slip / k));
+
+    if (!a.isStatic) {
+      a.vx += jt * tx * invMa;
+      a.vy += jt * ty * invMa;
+      if (ra > 0) a.angularVelocity = wa - 2 * jt * invMa / ra;
+    }
+    if (!b.isStatic) {
+      b.vx -= jt * tx * invMb;
+      b.vy -= jt * ty * invMb;
+      if (rb > 0) b.angularVelocity = wb - 2 * jt * invMb / rb;
+    }
+  }
+
+  // 反弹后的材质效果：粘性吸收、弹板加速（相对接触面速度计算）
+  private applySurfaceResponse(c: PhysicsBody, surface: Vector, nx: number, ny: number, contact: ContactMaterial): void {
+    let rvx = c.vx - surface.x, rvy = c.vy - surface.y;
+
+    if (contact.stickiness > 0) {
+      rvx *= 1 - contact.stickiness;
+      rvy *= 1 - contact.stickiness;
+    }
+
+    c.vx = surface.x + rvx + nx * contact.bounceBoost;
+    c.vy = surface.y + rvy + ny * contact.bounceBoost;
   }
 
   /**
@@ -237,20 +1248,17 @@ export class PhysicsEngine {
   }
 
   /**
-   * 检查物体是否在边界外
+   * 检查物体是否已出界（被淘汰，或圆心离开场地）
    */
   public isOutOfBounds(body: PhysicsBody): boolean {
-    const margin = (body.type === 'circle' ? (body as any).radius || 0 : 0);
-    return body.x < -margin || 
-           body.x > this.bounds.width + margin ||
-           body.y < -margin || 
-           body.y > this.bounds.height + margin;
+    return !!body.isOutOfBounds || this.isOutsideField(body);
   }
 
   /**
    * 检查物体是否静止
    */
   public isStationary(body: PhysicsBody, threshold: number = 0.1): boolean {
+    if (body.isSleeping) return true;
     return Math.abs(body.vx) < threshold && Math.abs(body.vy) < threshold;
   }
 }
\ No newline at end of file
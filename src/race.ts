@@ -0,0 +1,95 @@
+// src/race.ts
+/**
+ * 竞速玩法
+ * 赛道比屏幕长，各方轮流弹自己的弹珠往下跑；弹珠圆心越过终点线即记下到达时间
+ * （物理模拟时间），全部到达后按时间排名。只读写弹珠状态，游戏和无界面模拟共用
+ */
+
+import { Vector } from './physics';
+import { GameBall } from './databus';
+import { GameResult } from './GameStates';
+
+export interface FinishLine {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const RACE_START_Y = 120;       // 起跑线（弹珠圆心）的高度
+export const RACE_FINISH_MARGIN = 120; // 终点线到赛道底部的距离，越线后在这里减速停下
+
+// AI 参赛弹珠的颜色，便于下注时区分
+export const RACER_COLORS = ['#e74c3c', '#f39c12', '#9b59b6', '#1abc9c'];
+
+/**
+ * 赛道底部的终点线
+ */
+export function getFinishLine(width: number, mapHeight: number): FinishLine {
+  return { x: 0, y: mapHeight - RACE_FINISH_MARGIN, width, height: 8 };
+}
+
+/**
+ * 标记本步越过终点线的弹珠，返回新到达的弹珠
+ * 到达时间按越线的距离和速度回推到越线那一刻；到达后退出碰撞，不再挡路
+ * @param time 当前的物理模拟时间（秒）
+ */
+export function markFinishers(balls: GameBall[], line: FinishLine, time: number): GameBall[] {
+  const arrived: GameBall[] = [];
+
+  balls.forEach(ball => {
+    if (ball.finished || ball.y < line.y) return;
+    const overshoot = ball.vy > 0 ? (ball.y - line.y) / ball.vy : 0;
+
+    ball.finished = true;
+    ball.finishTime = Math.max(0, time - overshoot);
+    ball.isDisabled = true;
+    arrived.push(ball);
+  });
+
+  return arrived;
+}
+
+/**
+ * 已到达的弹珠按到达时间排名
+ */
+export function rankRacers(balls: GameBall[]): GameBall[] {
+  return balls
+    .filter(ball => ball.finished)
+    .sort((a, b) => (a.finishTime || 0) - (b.finishTime || 0));
+}
+
+/**
+ * 弹珠在结算界面和下注提示上的名字：玩家的为“你”，AI 的按出场顺序编号
+ */
+export function getRacerName(ball: GameBall, balls: GameBall[]): string {
+  if (ball.isPlayer) return '你';
+  return `电脑${balls.filter(item => item.isEnemy).indexOf(ball) + 1}`;
+}
+
+/**
+ * 结算界面的排名行
+ * @param nameOf 弹珠的名字，双人同屏用双方的名字
+ */
+export function formatRanking(ranking: GameBall[], balls: GameBall[],
+  nameOf: (ball: GameBall) => string = ball => getRacerName(ball, balls)): string[] {
+  return ranking.map((ball, index) =>
+    `${index + 1}. ${nameOf(ball)}  ${(ball.finishTime || 0).toFixed(1)}s`);
+}
+
+/**
+ * 押注弹珠的结果：押中第一名为赢，否则为输
+ */
+export function getRaceBetResult(ranking: GameBall[], betBall: GameBall | null): GameResult {
+  return betBall && ranking.length > 0 && ranking[0].id === betBall.id ? GameResult.WIN : GameResult.LOSE;
+}
+
+/**
+ * AI 的竞速击球：朝终点方向（正下方）弹出，方向带随机偏差
+ * @param spread 最大偏差角（弧度）
+ * @param random 返回 [0, 1) 的随机数
+ */
+export function createRaceShot(speed: number, spread: number, random: () => number = Math.random): Vector {
+  const angle = Math.PI / 2 + (random() - 0.5) * 2 * spread;
+  return { x: Math.cos(angle) * speed, y: Math.sin(angle) * speed };
+}
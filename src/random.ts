@@ -0,0 +1,49 @@
+// src/random.ts
+/**
+ * 可设定种子的伪随机数生成器
+ * 同一种子产生同一序列，用于回放、平衡测试和确定性模拟
+ */
+
+export class SeededRandom {
+  private state: number;
+  private readonly initialSeed: number;
+
+  constructor(seed: number = Date.now()) {
+    this.initialSeed = seed >>> 0;
+    this.state = this.initialSeed;
+  }
+
+  /**
+   * 获取初始种子
+   */
+  public getSeed(): number {
+    return this.initialSeed;
+  }
+
+  /**
+   * 重置到初始种子
+   */
+  public reset(): void {
+    this.state = this.initialSeed;
+  }
+
+  /**
+   * 返回 [0, 1) 之间的随机数（mulberry32）
+   */
+  public next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * 返回 [min, max) 之间的随机数
+   */
+  public range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+}
+
+export default SeededRandom;
@@ -0,0 +1,227 @@
+// src/rules.ts
+/**
+ * 回合规则
+ * 弹珠全部静止后按地图玩法判定本回合结果：出圈、打洞、竞速、出界和一扎捕获。
+ * 只读取状态、返回结果，不依赖画布和微信 API，游戏和无界面模拟共用
+ */
+
+import { Vector } from './physics';
+import { GameBall, GameObstacle } from './databus';
+import { MapDefinition, getGameMode, getMapBoundary } from './maps';
+import { GameResult } from './GameStates';
+import { rankRacers } from './race';
+
+export type Side = 'player' | 'enemy';
+
+export type RoundResult = 'continue' | 'player_win' | 'enemy_win' | 'draw';
+
+// 结果由哪条规则产生
+export type RoundReason = 'none' | 'capture' | 'ring' | 'pocket' | 'race' | 'out_of_bounds';
+
+export interface PocketScores {
+  player: number;
+  enemy: number;
+}
+
+export interface RoundContext {
+  map: MapDefinition;
+  balls: GameBall[];
+  obstacles: GameObstacle[];
+  handSpan: number;
+  pocketScores: PocketScores; // 本回合之前的进洞得分
+  holeTargetScore: number;
+  shooter: Side;              // 刚结束的这一击由哪一方打出
+  shotBallId?: string;        // 这一击弹出的弹珠，默认为击球方的第一颗
+}
+
+export interface RoundOutcome {
+  result: RoundResult;
+  reason: RoundReason;
+  respawn: string[];          // 需要放回击球前位置的弹珠 id
+  removed: string[];          // 被捕获或出界淘汰、移出本局的弹珠 id
+  pocketPoints: PocketScores; // 本回合的进洞得分
+  penaltyScore: number;       // 玩家出界需扣除的积分
+}
+
+/**
+ * 判定本回合结果
+ */
+export function resolveRound(context: RoundContext): RoundOutcome {
+  const outcome: RoundOutcome = {
+    result: 'continue',
+    reason: 'none',
+    respawn: [],
+    removed: [],
+    pocketPoints: { player: 0, enemy: 0 },
+    penaltyScore: 0
+  };
+
+  const player = context.balls.find(ball => ball.isPlayer);
+  const enemy = context.balls.find(ball => ball.isEnemy);
+  if (!player || !enemy) return outcome;
+
+  // 出圈玩法只看谁还留在圈里，打洞玩法只看进洞得分，竞速只看到达终点的先后，都不做一扎判定
+  const mode = getGameMode(context.map);
+  if (mode === 'ring') {
+    resolveRing(context, outcome);
+  } else if (mode === 'hole') {
+    resolvePockets(context, outcome);
+  } else if (mode === 'race') {
+    resolveRace(context, outcome);
+  } else if (context.balls.some(ball => ball.isOutOfBounds)) {
+    resolveOutOfBounds(context, outcome);
+  } else {
+    resolveCapture(context, outcome);
+  }
+
+  return outcome;
+}
+
+/**
+ * 对局结束时玩家视角的结果；未分胜负时为 null
+ */
+export function getGameResult(result: RoundResult): GameResult | null {
+  switch (result) {
+    case 'player_win': return GameResult.WIN;
+    case 'enemy_win': return GameResult.LOSE;
+    case 'draw': return GameResult.DRAW;
+    default: return null;
+  }
+}
+
+/**
+ * 执行结果中对对局状态的修改：放回弹珠、移除被捕获的弹珠、累加进洞得分
+ * （玩家积分等持久数据由调用方处理）
+ * @param balls 本局的弹珠数组，被捕获的弹珠从中原地移除
+ */
+export function applyRoundOutcome(outcome: RoundOutcome, balls: GameBall[], pocketScores: PocketScores, fallback: Vector): void {
+  pocketScores.player += outcome.pocketPoints.player;
+  pocketScores.enemy += outcome.pocketPoints.enemy;
+
+  outcome.removed.forEach(id => {
+    const index = balls.findIndex(ball => ball.id === id);
+    if (index >= 0) balls.splice(index, 1);
+  });
+
+  outcome.respawn.forEach(id => {
+    const ball = balls.find(item => item.id === id);
+    if (ball) respawnBall(ball, fallback);
+  });
+}
+
+/**
+ * 把弹珠放回击球前的位置并保持静止
+ * @param fallback 没有记录击球位置时使用的位置
+ */
+export function respawnBall(ball: GameBall, fallback: Vector): void {
+  const origin = ball.shotOrigin || fallback;
+
+  ball.x = origin.x;
+  ball.y = origin.y;
+  ball.vx = 0;
+  ball.vy = 0;
+  ball.angularVelocity = 0;
+  ball.isOutOfBounds = false;
+  ball.isDisabled = false;
+  ball.capturedBy = undefined;
+  ball.isSleeping = true;
+  ball.sleepTimer = 0;
+}
+
+function isOnSide(ball: GameBall, side: Side): boolean {
+  return side === 'player' ? !!ball.isPlayer : !!ball.isEnemy;
+}
+
+// 一扎：击球方弹出的弹珠停在对方弹珠一扎之内即捕获它（有多颗时取最近的一颗），
+// 对方的弹珠全部被捕获即获胜
+function resolveCapture(context: RoundContext, outcome: RoundOutcome): void {
+  const shooter = context.balls.find(ball => ball.id === context.shotBallId && isOnSide(ball, context.shooter)) ||
+    context.balls.find(ball => isOnSide(ball, context.shooter));
+  if (!shooter) return;
+
+  let target: GameBall | null = null;
+  let nearest = context.handSpan;
+  for (const ball of context.balls) {
+    if (isOnSide(ball, context.shooter)) continue;
+    const dx = shooter.x - ball.x;
+    const dy = shooter.y - ball.y;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+    if (distance <= nearest) {
+      nearest = distance;
+      target = ball;
+    }
+  }
+  if (!target) return;
+
+  outcome.reason = 'capture';
+  outcome.removed.push(target.id);
+  const remaining = context.balls.filter(ball => ball !== target && !isOnSide(ball, context.shooter));
+  if (remaining.length === 0) {
+    outcome.result = context.shooter === 'player' ? 'player_win' : 'enemy_win';
+  }
+}
+
+// 出圈：一方的弹珠全部出圈即输，双方同时出圈为平局
+function resolveRing(context: RoundContext, outcome: RoundOutcome): void {
+  const playerInside = context.balls.some(ball => ball.isPlayer && !ball.isOutOfBounds);
+  const enemyInside = context.balls.some(ball => ball.isEnemy && !ball.isOutOfBounds);
+  if (playerInside && enemyInside) return;
+
+  outcome.reason = 'ring';
+  outcome.result = playerInside ? 'player_win' : enemyInside ? 'enemy_win' : 'draw';
+}
+
+// 打洞：进洞的弹珠为所属一方记分后放回原处，先达到目标分的一方获胜
+function resolvePockets(context: RoundContext, outcome: RoundOutcome): void {
+  context.balls.forEach(ball => {
+    if (!ball.capturedBy) return;
+    const hole = context.obstacles.find(obstacle => obstacle.id === ball.capturedBy);
+    const points = hole && hole.points ? hole.points : 1;
+
+    if (ball.isPlayer) outcome.pocketPoints.player += points;
+    else outcome.pocketPoints.enemy += points;
+    outcome.respawn.push(ball.id);
+  });
+
+  const player = context.pocketScores.player + outcome.pocketPoints.player;
+  const enemy = context.pocketScores.enemy + outcome.pocketPoints.enemy;
+  if (player < context.holeTargetScore && enemy < context.holeTargetScore) return;
+
+  outcome.reason = 'pocket';
+  outcome.result = player > enemy ? 'player_win' : enemy > player ? 'enemy_win' : 'draw';
+}
+
+// 竞速：全部弹珠到达终点后结束，玩家的弹珠第一个到达为胜
+function resolveRace(context: RoundContext, outcome: RoundOutcome): void {
+  if (!context.balls.every(ball => ball.finished)) return;
+
+  outcome.reason = 'race';
+  outcome.result = rankRacers(context.balls)[0].isPlayer ? 'player_win' : 'enemy_win';
+}
+
+// 出界：按地图规则淘汰（一方弹珠全部出界即输），或扣分后放回原处；双方同时全部出界时都放回
+function resolveOutOfBounds(context: RoundContext, outcome: RoundOutcome): void {
+  const boundary = getMapBoundary(context.map);
+
+  if ((boundary.penalty || 'lose') === 'lose') {
+    const playerLeft = context.balls.some(ball => ball.isPlayer && !ball.isOutOfBounds);
+    const enemyLeft = context.balls.some(ball => ball.isEnemy && !ball.isOutOfBounds);
+    if (playerLeft !== enemyLeft) {
+      outcome.reason = 'out_of_bounds';
+      outcome.result = playerLeft ? 'player_win' : 'enemy_win';
+      return;
+    }
+    if (playerLeft) {
+      context.balls.forEach(ball => {
+        if (ball.isOutOfBounds) outcome.removed.push(ball.id);
+      });
+      return;
+    }
+  }
+
+  context.balls.forEach(ball => {
+    if (!ball.isOutOfBounds) return;
+    if (ball.isPlayer && boundary.penalty === 'score') outcome.penaltyScore += boundary.penaltyScore || 0;
+    outcome.respawn.push(ball.id);
+  });
+}
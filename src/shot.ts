@@ -0,0 +1,36 @@
+// src/shot.ts
+/**
+ * 击球模型
+ * 拖拽距离 → 初速度、加塞 → 侧旋；实际击球和轨迹预览共用，保证两者一致
+ */
+
+export interface ShotLimits {
+  maxDrag: number;          // 达到满力所需的拖拽距离（像素）
+  maxSpeed: number;         // 满力时的初速度（像素/秒）
+  maxSpin: number;          // 满加塞时的侧旋（弧度/秒）
+  speedMultiplier?: number; // 弹珠自身的速度倍率（技能、道具）
+}
+
+export interface Shot {
+  vx: number;
+  vy: number;
+  spin: number;
+  power: number; // 0-1
+}
+
+/**
+ * 计算一次击球
+ * @param dx 射击方向（拖拽起点 - 终点）
+ * @param dragDistance 拖拽距离
+ * @param english 加塞量 [-1, 1]
+ */
+export function computeShot(dx: number, dy: number, dragDistance: number, english: number, limits: ShotLimits): Shot {
+  const length = Math.sqrt(dx * dx + dy * dy);
+  if (length === 0) return { vx: 0, vy: 0, spin: 0, power: 0 };
+
+  const power = Math.min(dragDistance, limits.maxDrag) / limits.maxDrag;
+  const speed = power * limits.maxSpeed * (limits.speedMultiplier || 1);
+  const spin = Math.max(-1, Math.min(1, english)) * limits.maxSpin;
+
+  return { vx: dx / length * speed, vy: dy / length * speed, spin, power };
+}
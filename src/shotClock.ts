@@ -0,0 +1,68 @@
+// src/shotClock.ts
+/**
+ * 击球计时
+ * 双方每次击球都有时限（秒，见 config.TURN_TIME），计时存放在 GameStateManager 中；
+ * 这里是超时处理策略、最后几秒的提醒和超时弱击的计算
+ */
+
+import { Vector } from './physics';
+
+// 超时处理：自动让过、随机弱击、扣分后让过
+export type TimeoutPolicy = 'pass' | 'weak_shot' | 'penalty';
+
+// 设置界面的选项名
+export const TIMEOUT_POLICY_NAMES: { [name: string]: TimeoutPolicy } = {
+  '自动让过': 'pass',
+  '随机弱击': 'weak_shot',
+  '扣分': 'penalty'
+};
+
+export function getTimeoutPolicy(name: string): TimeoutPolicy {
+  return TIMEOUT_POLICY_NAMES[name] || 'pass';
+}
+
+/**
+ * 计时从 before 走到 after 时跨过的提醒整秒（只在最后 warningTime 秒内提醒）
+ * 整秒 s 在 before >= s > after 的那一帧提醒，相邻两帧不会重复
+ */
+export function getWarningSeconds(before: number, after: number, warningTime: number): number[] {
+  const seconds: number[] = [];
+  for (let second = Math.min(Math.floor(before), warningTime); second >= 1 && second > after; second--) {
+    seconds.push(second);
+  }
+  return seconds;
+}
+
+/**
+ * 超时弱击：随机方向、固定的小速度
+ * @param random 返回 [0, 1) 的随机数
+ */
+export function createWeakShot(speed: number, random: () => number = Math.random): Vector {
+  const angle = random() * Math.PI * 2;
+  return { x: Math.cos(angle) * speed, y: Math.sin(angle) * speed };
+}
+
+let audioContext: WechatMinigame.WebAudioContext | null = null;
+
+/**
+ * 最后几秒的提醒：短震动和一声短促的提示音，最后一秒音调更高
+ */
+export function playClockWarning(secondsLeft: number, sound: boolean, vibration: boolean): void {
+  if (typeof wx === 'undefined') return;
+
+  if (vibration && wx.vibrateShort) {
+    wx.vibrateShort({ type: secondsLeft <= 1 ? 'heavy' : 'light' });
+  }
+
+  if (sound && wx.createWebAudioContext) {
+    if (!audioContext) audioContext = wx.createWebAudioContext();
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+    oscillator.frequency.value = secondsLeft <= 1 ? 1320 : 880;
+    gain.gain.value = 0.2;
+    oscillator.connect(gain);
+    gain.connect(audioContext.destination);
+    oscillator.start();
+    oscillator.stop(audioContext.currentTime + 0.08);
+  }
+}
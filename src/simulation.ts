@@ -0,0 +1,319 @@
+// src/simulation.ts
+/**
+ * 无界面模拟
+ * 对局布局生成、按地图配置物理引擎、以及纯函数 simulateShot：
+ * 不依赖画布和微信 API，可在 Node 中跑完整对局，用于单元测试、AI 搜索和平衡脚本
+ */
+
+import { PhysicsEngine, PhysicsBody, SurfaceZone, cloneBodies } from './physics';
+import DataBus, { GameBall, GameObstacle } from './databus';
+import {
+  MapDefinition, getMap, getProfileGravity, getProfileAirResistance, getMapBoundary, getRingBoundary, getGameMode,
+  getMapHeight
+} from './maps';
+import { ForceField, layoutField } from './fields';
+import { SeededRandom } from './random';
+import { Side, RoundOutcome, RoundResult, PocketScores, resolveRound, applyRoundOutcome } from './rules';
+import { RACE_START_Y, RACER_COLORS, getFinishLine, markFinishers } from './race';
+
+export { Side };
+
+export interface MatchOptions {
+  width: number;
+  height: number;    // 屏幕高度，竞速赛道按地图配置加长
+  seed: number;
+  mapId?: string;    // 默认当前地图
+  handSpan?: number; // 默认 DataBus.handSpan
+  teamSize?: number; // 每方的弹珠数，默认 1；竞速地图按赛道配置
+  racers?: number;   // 竞速的参赛弹珠数，默认按赛道配置
+}
+
+export interface MatchState {
+  mapId: string;
+  seed: number;
+  width: number;
+  height: number;    // 世界高度（竞速赛道比屏幕长）
+  turn: Side;        // 轮到哪一方击球
+  balls: GameBall[];
+  obstacles: GameObstacle[];
+  zones: SurfaceZone[];
+  fields: ForceField[];
+  pocketScores: PocketScores;
+  handSpan: number;
+  simTime: number;   // 物理模拟时间，决定运动学障碍物的相位
+  result: RoundResult;
+}
+
+export interface ShotCommand {
+  ballId: string;
+  vx: number;
+  vy: number;
+  spin?: number;
+}
+
+export interface ShotOutcome {
+  state: MatchState;  // 结算后的新状态，传入的状态不变
+  round: RoundOutcome;
+  steps: number;      // 到全部静止用的固定步数
+  settled: boolean;   // 是否在步数上限内全部静止
+  hits: string[];     // 击球弹珠依次碰到的物体 id（世界边界为 'wall'）
+}
+
+// 默认最多模拟 30 秒
+const DEFAULT_MAX_STEPS = 1800;
+
+/**
+ * 按地图创建物理引擎：重力、空气阻力、边界模式和圆形场地
+ */
+export function createPhysicsForMap(map: MapDefinition, width: number, height: number): PhysicsEngine {
+  const engine = new PhysicsEngine(width, height);
+  engine.setEnvironment(getProfileGravity(map.physics), getProfileAirResistance(map.physics));
+  const boundary = getMapBoundary(map);
+  engine.setBoundaryMode(boundary.mode, boundary.margin);
+  engine.setBoundaryRing(getRingBoundary(map, width, height));
+  return engine;
+}
+
+/**
+ * 按种子生成一局：先后手、弹珠、洞口、障碍物、地面区域和力场
+ * 同一种子、地图和屏幕尺寸得到相同的布局
+ */
+export function createMatch(options: MatchOptions): MatchState {
+  const config = DataBus.config;
+  const map = options.mapId ? getMap(options.mapId) : DataBus.getCurrentMap();
+  const width = options.width;
+  const height = getMapHeight(map, options.height);
+  const random = new SeededRandom(options.seed);
+  const engine = createPhysicsForMap(map, width, height);
+
+  const state: MatchState = {
+    mapId: map.id,
+    seed: options.seed,
+    width,
+    height,
+    turn: random.next() > 0.5 ? 'player' : 'enemy',
+    balls: [],
+    obstacles: [],
+    zones: [],
+    fields: [],
+    pocketScores: { player: 0, enemy: 0 },
+    handSpan: options.handSpan !== undefined ? options.handSpan : DataBus.handSpan,
+    simTime: 0,
+    result: 'continue'
+  };
+
+  // 出圈玩法：双方在圆圈直径两端相对，圈内不放障碍物和地面区域
+  const ring = engine.getBoundaryRing();
+  if (map.race) {
+    spawnRacers(state, options.racers || map.race.racers, random);
+  } else {
+    // 多颗弹珠时每方在自己一侧竖排开
+    const teamSize = Math.max(1, options.teamSize || 1);
+    const spawnOffset = ring ? ring.radius / 2 : width / 2 - 100;
+    const spacing = ring ? ring.radius / 3 : Math.min(80, (height - 240) / teamSize);
+    for (let i = 0; i < teamSize; i++) {
+      const y = height / 2 + (i - (teamSize - 1) / 2) * spacing;
+      const suffix = i === 0 ? '' : `_${i + 1}`;
+      state.balls.push(DataBus.createBall(`player${suffix}`, width / 2 - spawnOffset, y, 'player'));
+      state.balls.push(DataBus.createBall(`enemy${suffix}`, width / 2 + spawnOffset, y, 'enemy'));
+    }
+  }
+
+  // 打洞玩法：先放洞口，障碍物随后避开它们
+  if (getGameMode(map) === 'hole') {
+    config.HOLES.forEach((spec, index) => {
+      for (let attempts = 0; attempts < 50; attempts++) {
+        const x = 60 + random.next() * (width - 120);
+        const y = 120 + random.next() * (height - 240);
+        if (isPlacementValid(state, engine, x - spec.radius, y - spec.radius, spec.radius * 2, spec.radius * 2)) {
+          state.obstacles.push(DataBus.createHole(`hole_${index}`, x, y, spec.radius, spec.points));
+          break;
+        }
+      }
+    });
+  }
+
+  // 创建障碍物（竞速赛道按长度加量）
+  const obstacleCount = ring ? 0 : config.OBSTACLE_COUNT * (map.race ? map.race.lengthRatio : 1);
+  for (let i = 0; i < obstacleCount; i++) {
+    const obstacleWidth = 40 + random.next() * 60;
+    const obstacleHeight = 40 + random.next() * 60;
+
+    // 避免与弹珠位置重叠
+    let x = 0;
+    let y = 0;
+    let valid = false;
+    let attempts = 0;
+    while (!valid && attempts < 50) {
+      attempts++;
+      x = 80 + random.next() * (width - 160);
+      y = 100 + random.next() * (height - 200);
+
+      valid = isPlacementValid(state, engine, x, y, obstacleWidth, obstacleHeight);
+    }
+
+    if (!valid) {
+      continue;
+    }
+
+    // 前几个障碍物为可推动的木箱
+    const obstacle = i < config.MOVABLE_OBSTACLE_COUNT
+      ? DataBus.createMovableObstacle(`crate_${i}`, x, y, obstacleWidth * 0.6, obstacleHeight * 0.6)
+      : DataBus.createObstacle(`obstacle_${i}`, x, y, obstacleWidth, obstacleHeight);
+
+    // 随后几个障碍物左右往返巡逻
+    const kinematicEnd = config.MOVABLE_OBSTACLE_COUNT + config.KINEMATIC_OBSTACLE_COUNT;
+    if (i >= config.MOVABLE_OBSTACLE_COUNT && i < kinematicEnd) {
+      DataBus.setObstacleMotion(obstacle, {
+        type: 'linear',
+        dx: x > width / 2 ? -60 : 60,
+        dy: 0,
+        period: 4,
+        phase: random.next() * Math.PI * 2
+      });
+    } else if (i >= kinematicEnd && i < kinematicEnd + config.BUMPER_COUNT) {
+      DataBus.setObstacleMaterial(obstacle, 'bumper');
+    }
+    state.obstacles.push(obstacle);
+  }
+
+  // 地面材质区域（冰面、沙地等），可与弹珠和障碍物重叠
+  const zoneMaterials = ring ? [] : config.SURFACE_ZONE_MATERIALS;
+  zoneMaterials.forEach((materialId, index) => {
+    const zoneWidth = 80 + random.next() * 60;
+    const zoneHeight = 60 + random.next() * 60;
+    const x = random.next() * (width - zoneWidth);
+    const y = 80 + random.next() * (height - 160 - zoneHeight);
+    state.zones.push(DataBus.createSurfaceZone(`zone_${index}`, x, y, zoneWidth, zoneHeight, materialId));
+  });
+
+  // 地图力场按屏幕尺寸换算
+  state.fields = (map.fields || []).map(field => layoutField(field, width, height));
+
+  return state;
+}
+
+/**
+ * 模拟一次击球直到全部静止，再按规则结算；纯函数，不修改传入的状态
+ * 击球的弹珠必须属于当前回合的一方，否则报错
+ * @param maxSteps 最多模拟的固定步数
+ */
+export function simulateShot(state: MatchState, shot: ShotCommand, maxSteps: number = DEFAULT_MAX_STEPS): ShotOutcome {
+  const next = cloneMatch(state);
+  const map = getMap(next.mapId);
+  const engine = createPhysicsForMap(map, next.width, next.height);
+  engine.setSurfaceZones(next.zones);
+  engine.setForceFields(next.fields);
+  engine.setSimulationTime(next.simTime);
+
+  const shooter = next.balls.find(ball => ball.id === shot.ballId);
+  if (!shooter) {
+    throw new Error(`未知的弹珠: ${shot.ballId}`);
+  }
+  const side: Side = shooter.isPlayer ? 'player' : 'enemy';
+  if (side !== next.turn) {
+    throw new Error(`不是 ${side} 的回合: ${shot.ballId}`);
+  }
+  DataBus.recordShotOrigins(next.balls);
+  shooter.vx = shot.vx;
+  shooter.vy = shot.vy;
+  shooter.angularVelocity = shot.spin || 0;
+
+  const hits: string[] = [];
+  engine.contacts.on('begin', event => {
+    if (event.a === shooter) hits.push(event.b ? event.b.id : 'wall');
+    else if (event.b === shooter) hits.push(event.a.id);
+  });
+
+  // 竞速玩法每步检测越过终点线的弹珠
+  const finishLine = getGameMode(map) === 'race' ? getFinishLine(next.width, next.height) : null;
+
+  const bodies: PhysicsBody[] = [...next.balls, ...next.obstacles];
+  let steps = 0;
+  do {
+    engine.runSteps(bodies, 1);
+    if (finishLine) markFinishers(next.balls, finishLine, engine.getSimulationTime());
+    steps++;
+  } while (steps < maxSteps && !engine.isAtRest(bodies));
+  next.simTime = engine.getSimulationTime();
+
+  const round = resolveRound({
+    map,
+    balls: next.balls,
+    obstacles: next.obstacles,
+    handSpan: next.handSpan,
+    pocketScores: next.pocketScores,
+    holeTargetScore: DataBus.config.HOLE_TARGET_SCORE,
+    shooter: side,
+    shotBallId: shooter.id
+  });
+  applyRoundOutcome(round, next.balls, next.pocketScores, { x: next.width / 2, y: next.height / 2 });
+  next.result = round.result;
+  if (round.result === 'continue') {
+    next.turn = next.turn === 'player' ? 'enemy' : 'player';
+  }
+
+  return { state: next, round, steps, settled: engine.isAtRest(bodies), hits };
+}
+
+/**
+ * 复制对局状态（物体、区域、力场和得分都是新对象）
+ */
+export function cloneMatch(state: MatchState): MatchState {
+  return {
+    ...state,
+    balls: cloneBodies(state.balls),
+    obstacles: cloneBodies(state.obstacles),
+    zones: state.zones.map(zone => ({ ...zone })),
+    fields: state.fields.map(field => ({ ...field })),
+    pocketScores: { ...state.pocketScores }
+  };
+}
+
+// 竞速：玩家和 AI 的弹珠在起跑线上等距排开，玩家的位置随种子抽取
+function spawnRacers(state: MatchState, racers: number, random: SeededRandom): void {
+  const playerSlot = Math.floor(random.next() * racers);
+  let enemyIndex = 0;
+
+  for (let slot = 0; slot < racers; slot++) {
+    const x = state.width * (slot + 1) / (racers + 1);
+    if (slot === playerSlot) {
+      state.balls.push(DataBus.createBall('player', x, RACE_START_Y, 'player'));
+      continue;
+    }
+
+    const id = enemyIndex === 0 ? 'enemy' : `enemy_${enemyIndex + 1}`;
+    const ball = DataBus.createBall(id, x, RACE_START_Y, 'enemy');
+    ball.color = RACER_COLORS[enemyIndex % RACER_COLORS.length];
+    state.balls.push(ball);
+    enemyIndex++;
+  }
+}
+
+// 新物体（含 padding）不能与弹珠或已有障碍物的包围盒重叠
+function isPlacementValid(state: MatchState, engine: PhysicsEngine, x: number, y: number, width: number, height: number): boolean {
+  const padding = 6;
+
+  const overlapsBall = state.balls.some(ball => {
+    const closestX = Math.max(x, Math.min(ball.x, x + width));
+    const closestY = Math.max(y, Math.min(ball.y, y + height));
+    const dx = ball.x - closestX;
+    const dy = ball.y - closestY;
+    const minDistance = ball.radius + padding;
+
+    return dx * dx + dy * dy < minDistance * minDistance;
+  });
+
+  if (overlapsBall) {
+    return false;
+  }
+
+  return !state.obstacles.some(obstacle => {
+    // 旋转矩形、多边形和线段按包围盒判断
+    const box = engine.getBodyAABB(obstacle);
+    return x - padding < box.maxX + padding &&
+      x + width + padding > box.minX - padding &&
+      y - padding < box.maxY + padding &&
+      y + height + padding > box.minY - padding;
+  });
+}
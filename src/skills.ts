@@ -156,6 +156,13 @@ export class SkillManager {
   public getMatchSkillIds(): string[] {
     return this.matchSkillIds.slice();
   }
+
+  /**
+   * 切换当前的技能快照（双人同屏换边时换成对方的），不清除冷却
+   */
+  public setMatchSkillIds(skillIds: string[]): void {
+    this.matchSkillIds = skillIds;
+  }
   
   /**
    * 获取技能快照
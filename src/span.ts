@@ -0,0 +1,38 @@
+// src/span.ts
+/**
+ * 一扎测量
+ * 捕获前玩家在屏幕上从拇指到手指拖出一扎，量两颗弹珠之间的距离：
+ * 两端分别按在两颗弹珠上、且量得的距离不超过一扎（handSpan）才算捕获成功
+ */
+
+import { Vector } from './physics';
+import { GameBall } from './databus';
+
+// 指尖落在弹珠边缘外这一距离内仍算按在弹珠上（像素）
+export const SPAN_TOUCH_TOLERANCE = 12;
+
+export interface SpanMeasurement {
+  span: number;     // 拖拽量出的距离（像素）
+  reached: boolean; // 两端是否分别按在两颗弹珠上
+  success: boolean;
+}
+
+/**
+ * 按一次拖拽的起止点判定一扎，起点在哪一颗弹珠上都可以
+ */
+export function measureSpan(start: Vector, end: Vector, shooter: GameBall, target: GameBall, handSpan: number): SpanMeasurement {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const span = Math.sqrt(dx * dx + dy * dy);
+  const reached = (isTouching(start, shooter) && isTouching(end, target)) ||
+    (isTouching(start, target) && isTouching(end, shooter));
+
+  return { span, reached, success: reached && span <= handSpan };
+}
+
+function isTouching(point: Vector, ball: GameBall): boolean {
+  const dx = point.x - ball.x;
+  const dy = point.y - ball.y;
+  const reach = ball.radius + SPAN_TOUCH_TOLERANCE;
+  return dx * dx + dy * dy <= reach * reach;
+}
@@ -0,0 +1,109 @@
+// src/trajectory.ts
+/**
+ * 轨迹预览
+ * 在复制出的物理引擎中试算真实击球，得到路径、反弹点、首次碰到对手的位置和停止点
+ */
+
+import { Vector, PhysicsBody, PhysicsEngine, cloneBodies } from './physics';
+import { Shot } from './shot';
+
+export interface PreviewLimits {
+  maxSteps: number;       // 绘制的路径长度（固定步数）
+  maxBounces: number;     // 绘制的反弹次数，超过后路径截断
+  showTarget: boolean;    // 是否标出首次碰到对手的位置
+  showRestPoint: boolean; // 是否标出预测停止点
+}
+
+export interface TrajectoryPreview {
+  points: Vector[];
+  bounces: Vector[];
+  firstTargetContact: Vector | null;
+  restPoint: Vector | null;
+}
+
+// 寻找停止点时最多试算的步数（约 5 秒）
+const MAX_SIMULATION_STEPS = 300;
+// 每隔几步取一个路径点
+const SAMPLE_INTERVAL = 3;
+
+/**
+ * 按难度和瞄准辅助设置决定预览长度
+ * @param difficulty 设置中的难度名称（简单 / 中等 / 困难）
+ */
+export function getPreviewLimits(difficulty: string, aimAssist: boolean): PreviewLimits {
+  if (!aimAssist) {
+    return { maxSteps: 20, maxBounces: 0, showTarget: false, showRestPoint: false };
+  }
+
+  switch (difficulty) {
+    case '简单':
+      return { maxSteps: 240, maxBounces: 3, showTarget: true, showRestPoint: true };
+    case '困难':
+      return { maxSteps: 45, maxBounces: 0, showTarget: false, showRestPoint: false };
+    default:
+      return { maxSteps: 120, maxBounces: 1, showTarget: true, showRestPoint: true };
+  }
+}
+
+/**
+ * 试算一次击球；传入的引擎和物体不会被修改
+ * @param shooterId 击球弹珠 id
+ * @param targetId 对手弹珠 id
+ */
+export function predictShot(
+  engine: PhysicsEngine,
+  bodies: PhysicsBody[],
+  shooterId: string,
+  targetId: string,
+  shot: Shot,
+  limits: PreviewLimits
+): TrajectoryPreview {
+  const preview: TrajectoryPreview = { points: [], bounces: [], firstTargetContact: null, restPoint: null };
+  const sim = engine.clone();
+  const simBodies = cloneBodies(bodies);
+  const shooter = simBodies.find(body => body.id === shooterId);
+  if (!shooter) return preview;
+
+  shooter.vx = shot.vx;
+  shooter.vy = shot.vy;
+  shooter.angularVelocity = shot.spin;
+  shooter.isSleeping = false;
+  shooter.sleepTimer = 0;
+
+  let truncated = false;
+  sim.contacts.on('begin', event => {
+    if (truncated) return;
+    const other = event.a === shooter ? event.b : event.b === shooter ? event.a : undefined;
+    if (other === undefined) return;
+
+    if (other && other.id === targetId) {
+      if (limits.showTarget && !preview.firstTargetContact) {
+        preview.firstTargetContact = { x: shooter.x, y: shooter.y };
+      }
+      return;
+    }
+
+    if (preview.bounces.length >= limits.maxBounces) {
+      truncated = true;
+      return;
+    }
+    preview.bounces.push({ x: event.point.x, y: event.point.y });
+  });
+
+  const totalSteps = limits.showRestPoint ? Math.max(limits.maxSteps, MAX_SIMULATION_STEPS) : limits.maxSteps;
+  for (let step = 1; step <= totalSteps; step++) {
+    sim.runSteps(simBodies, 1);
+
+    if (!truncated && step <= limits.maxSteps && step % SAMPLE_INTERVAL === 0) {
+      preview.points.push({ x: shooter.x, y: shooter.y });
+    }
+
+    if (shooter.isSleeping) {
+      if (limits.showRestPoint) preview.restPoint = { x: shooter.x, y: shooter.y };
+      break;
+    }
+    if (!limits.showRestPoint && (truncated || step >= limits.maxSteps)) break;
+  }
+
+  return preview;
+}
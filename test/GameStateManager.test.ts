@@ -1,6 +1,7 @@
 // test/GameStateManager.test.ts
 import GameStateManager from '../src/GameStateManager';
-import { GameState, MenuState, Turn, GameSubState } from '../src/GameStates';
+import { GameState, MenuState, Turn, Controller, GameSubState } from '../src/GameStates';
+import DataBus from '../src/databus';
 
 // Mock 微信小游戏API
 const mockWx = {
@@ -86,9 +87,9 @@ describe('GameStateManager', () => {
     });
 
     it('应该重置回合计时器', () => {
-      gameStateManager.setTurnTimer(1000);
+      gameStateManager.setTurnTimer(1);
       gameStateManager.resetTurnTimer();
-      expect(gameStateManager.getTurnTimer()).toBe(6000);
+      expect(gameStateManager.getTurnTimer()).toBe(6);
     });
   });
 
@@ -251,13 +252,35 @@ describe('GameStateManager', () => {
     });
   });
 
+  describe('双人同屏', () => {
+    it('对手一方可由玩家操控，击球的弹珠跟着回合走', () => {
+      const player = DataBus.createBall('player', 100, 200, 'player');
+      const enemy = DataBus.createBall('enemy', 300, 200, 'enemy');
+      const enemy2 = DataBus.createBall('enemy_2', 300, 300, 'enemy');
+      gameStateManager.setBalls([player, enemy, enemy2]);
+
+      gameStateManager.setTurn(Turn.AI);
+      expect(gameStateManager.getController()).toBe(Controller.AI);
+      expect(gameStateManager.isHumanTurn()).toBe(false);
+
+      gameStateManager.setControllers(Controller.HUMAN, Controller.HUMAN);
+      expect(gameStateManager.isHumanTurn()).toBe(true);
+      gameStateManager.selectBall('enemy_2');
+      expect(gameStateManager.getTurnBall()).toBe(enemy2);
+      expect(gameStateManager.getTurnBalls()).toEqual([enemy, enemy2]);
+
+      gameStateManager.setTurn(Turn.PLAYER);
+      expect(gameStateManager.getTurnBall()).toBe(player);
+    });
+  });
+
   describe('重置方法', () => {
     it('应该正确重置所有状态', () => {
       // 设置一些状态
       gameStateManager.setGameState(GameState.PLAYING);
       gameStateManager.setMenuState(MenuState.HELP);
       gameStateManager.setTurn(Turn.AI);
-      gameStateManager.setTurnTimer(1000);
+      gameStateManager.setTurnTimer(1);
       gameStateManager.addBall({ id: 'test', type: 'circle', x: 0, y: 0, vx: 0, vy: 0, mass: 1, radius: 15, isStatic: false, restitution: 0.9, friction: 0.01, color: '#fff' } as any);
       
       // 重置
@@ -267,7 +290,7 @@ describe('GameStateManager', () => {
       expect(gameStateManager.getGameState()).toBe(GameState.MENU);
       expect(gameStateManager.getMenuState()).toBe(MenuState.MAIN);
       expect(gameStateManager.getTurn()).toBe(Turn.PLAYER);
-      expect(gameStateManager.getTurnTimer()).toBe(6000);
+      expect(gameStateManager.getTurnTimer()).toBe(6);
       expect(gameStateManager.getBalls()).toHaveLength(0);
     });
   });
@@ -0,0 +1,42 @@
+// test/betting.test.ts
+import DataBus from '../src/databus';
+import { GameResult } from '../src/GameStates';
+import { getBetOdds, getBetPayout } from '../src/betting';
+
+describe('赛前下注', () => {
+  it('难度越高赔率越高，玩家技能越多赔率越低', () => {
+    const player = DataBus.createBall('player', 100, 200, 'player');
+    const enemy = DataBus.createBall('enemy', 300, 200, 'enemy');
+
+    expect(getBetOdds('困难', player, enemy)).toBeGreaterThan(getBetOdds('简单', player, enemy));
+
+    const base = getBetOdds('中等', player, enemy);
+    player.passThroughObstacleCount = 1;
+    player.bonusBounceCount = 2;
+    expect(getBetOdds('中等', player, enemy)).toBeLessThan(base);
+    expect(getBetOdds('简单', player, enemy)).toBeGreaterThanOrEqual(1.1);
+  });
+
+  it('赢按赔率返还，平局退回本金，输不返还', () => {
+    expect(getBetPayout(10, 1.8, GameResult.WIN)).toBe(18);
+    expect(getBetPayout(10, 1.8, GameResult.DRAW)).toBe(10);
+    expect(getBetPayout(10, 1.8, GameResult.LOSE)).toBe(0);
+  });
+
+  it('结算时返还积分并记入账本', () => {
+    DataBus.reset();
+    DataBus.score = 50;
+    DataBus.balls = [DataBus.createBall('player', 100, 200, 'player')];
+    DataBus.selectBall('player');
+    const ledgerSize = DataBus.betLedger.length;
+
+    expect(DataBus.placeBet(20, 2)).toBe(true);
+    expect(DataBus.score).toBe(30);
+    expect(DataBus.settleBet(GameResult.WIN)).toBe(40);
+
+    expect(DataBus.score).toBe(70);
+    expect(DataBus.betAmount).toBe(0);
+    expect(DataBus.betLedger).toHaveLength(ledgerSize + 1);
+    expect(DataBus.betLedger[ledgerSize]).toMatchObject({ stake: 20, odds: 2, result: GameResult.WIN, payout: 40 });
+  });
+});
@@ -0,0 +1,34 @@
+// test/hotseat.test.ts
+import { GameResult } from '../src/GameStates';
+import { SeatRecords, recordSeatResult, getSeatMarbles, GUEST_MARBLES } from '../src/hotseat';
+
+describe('双人同屏', () => {
+  it('战绩按名字分开记录，双方各记一笔', () => {
+    const seats = [
+      { name: '小明', color: '#3498db', marbleId: 'golden_sun' },
+      { name: '小红', color: '#e74c3c', marbleId: 'basic_red' }
+    ];
+    const records: SeatRecords = {};
+    recordSeatResult(records, seats, GameResult.WIN);
+    recordSeatResult(records, seats, GameResult.DRAW);
+
+    expect(records['小明']).toEqual({ wins: 1, losses: 0, draws: 1 });
+    expect(records['小红']).toEqual({ wins: 0, losses: 1, draws: 1 });
+  });
+
+  it('双方同名时不记战绩，不会同一个名字既胜又负', () => {
+    const seats = [
+      { name: '小明', color: '#3498db', marbleId: 'golden_sun' },
+      { name: '小明', color: '#e74c3c', marbleId: 'basic_red' }
+    ];
+    const records: SeatRecords = {};
+    recordSeatResult(records, seats, GameResult.WIN);
+
+    expect(records['小明']).toBeUndefined();
+  });
+
+  it('客人只能用默认弹珠，手机主人用已解锁的', () => {
+    expect(getSeatMarbles(0, ['basic_red', 'golden_sun'])).toEqual(['basic_red', 'golden_sun']);
+    expect(getSeatMarbles(1, ['basic_red', 'golden_sun'])).toEqual(GUEST_MARBLES);
+  });
+});
@@ -0,0 +1,822 @@
+// test/physics.test.ts
+import { PhysicsEngine, PhysicsBody } from '../src/physics';
+import { attachMotion } from '../src/kinematics';
+import { MaterialRegistry } from '../src/materials';
+import { getMap, getProfileGravity, getProfileAirResistance } from '../src/maps';
+import { ContactEvent } from '../src/contacts';
+import { predictShot, getPreviewLimits } from '../src/trajectory';
+import { getFieldAcceleration, layoutField } from '../src/fields';
+
+function createBall(id: string, x: number, y: number): PhysicsBody {
+  return {
+    id,
+    type: 'circle',
+    x,
+    y,
+    vx: 0,
+    vy: 0,
+    mass: 1,
+    radius: 15,
+    isStatic: false,
+    restitution: 0.9,
+    friction: 0.01
+  };
+}
+
+function createWall(id: string, x: number, y: number, width: number, height: number): PhysicsBody {
+  return {
+    id,
+    type: 'rectangle',
+    x,
+    y,
+    vx: 0,
+    vy: 0,
+    mass: 0,
+    width,
+    height,
+    isStatic: true,
+    restitution: 0.5,
+    friction: 0.5
+  };
+}
+
+function createScene(): PhysicsBody[] {
+  const shooter = createBall('player', 100, 300);
+  shooter.vx = 240;
+  shooter.vy = -35;
+  return [
+    shooter,
+    createBall('enemy', 260, 280),
+    createWall('obstacle_0', 180, 120, 40, 80)
+  ];
+}
+
+// 以给定帧率推进 duration 秒
+function simulateAtFps(fps: number, duration: number): PhysicsBody[] {
+  const engine = new PhysicsEngine(375, 667);
+  engine.setEnvironment({ x: 0, y: 0.3 }, 0.98);
+  const bodies = createScene();
+  const frames = Math.round(duration * fps);
+  for (let i = 0; i < frames; i++) {
+    engine.update(bodies, 1 / fps);
+  }
+  return bodies;
+}
+
+describe('PhysicsEngine', () => {
+  describe('固定步长', () => {
+    it('不同帧率下同一击球得到完全相同的结果', () => {
+      const at30 = simulateAtFps(30, 3);
+      const at60 = simulateAtFps(60, 3);
+      const at120 = simulateAtFps(120, 3);
+
+      [at60, at120].forEach(result => {
+        result.forEach((body, index) => {
+          expect(body.x).toBe(at30[index].x);
+          expect(body.y).toBe(at30[index].y);
+        });
+      });
+    });
+
+    it('runSteps 对相同初始状态给出逐位一致的结果', () => {
+      const first = createScene();
+      const second = createScene();
+      new PhysicsEngine(375, 667).runSteps(first, 240);
+      new PhysicsEngine(375, 667).runSteps(second, 240);
+
+      expect(second.map(body => [body.x, body.y])).toEqual(first.map(body => [body.x, body.y]));
+    });
+
+    it('单帧过长时限制追赶步数', () => {
+      const engine = new PhysicsEngine(375, 667, { maxSubSteps: 4 });
+      const bodies = createScene();
+      engine.update(bodies, 1);
+      expect(engine.getStepCount()).toBe(4);
+    });
+
+    it('返回的插值系数位于两个固定步之间', () => {
+      const engine = new PhysicsEngine(375, 667);
+      const bodies = createScene();
+      const alpha = engine.update(bodies, 1 / 60 + 1 / 120);
+      expect(alpha).toBeCloseTo(0.5, 5);
+
+      const pos = engine.getInterpolatedPosition(bodies[0]);
+      expect(pos.x).toBeCloseTo((bodies[0].prevX as number + bodies[0].x) / 2, 5);
+    });
+  });
+
+  describe('连续碰撞检测', () => {
+    it('高速弹珠不会穿过薄障碍物', () => {
+      const engine = new PhysicsEngine(375, 667);
+      const ball = createBall('player', 60, 300);
+      ball.vx = 3000; // 单步位移 50px，远大于障碍厚度
+      const bodies = [ball, createWall('thin', 150, 200, 4, 200)];
+
+      engine.runSteps(bodies, 3);
+
+      expect(ball.x).toBeLessThan(150);
+      expect(ball.vx).toBeLessThan(0);
+    });
+
+    it('高速弹珠不会越过对手弹珠', () => {
+      const engine = new PhysicsEngine(375, 667);
+      const shooter = createBall('player', 40, 300);
+      const target = createBall('enemy', 120, 300);
+      shooter.vx = 6000; // 单步 100px，离散检测会直接跳过目标
+      const bodies = [shooter, target];
+
+      engine.runSteps(bodies, 1);
+
+      expect(target.vx).toBeGreaterThan(0);
+      expect(shooter.x).toBeLessThan(target.x);
+    });
+
+    it('高速弹珠撞到世界边界后反弹', () => {
+      const engine = new PhysicsEngine(375, 667);
+      const ball = createBall('player', 300, 300);
+      ball.vx = 9000;
+      engine.runSteps([ball], 1);
+
+      expect(ball.x).toBeLessThanOrEqual(375 - 15);
+      expect(ball.vx).toBeLessThan(0);
+    });
+  });
+
+  describe('宽相位', () => {
+    it('跳过静态障碍物之间的组合并统计每帧检测对数', () => {
+      const engine = new PhysicsEngine(375, 667);
+      const bodies: PhysicsBody[] = [createBall('player', 40, 40)];
+      for (let i = 0; i < 12; i++) {
+        bodies.push(createWall(`obstacle_${i}`, 20 + (i % 4) * 60, 200 + Math.floor(i / 4) * 60, 62, 62));
+      }
+
+      engine.runSteps(bodies, 1);
+      const stats = engine.getFrameStats();
+
+      expect(stats.bodies).toBe(13);
+      expect(stats.bruteForcePairs).toBe(78);
+      expect(stats.testedPairs).toBe(0);
+      expect(stats.skippedPairs).toBeGreaterThan(0);
+    });
+
+    it('休眠物体与静态物体的组合不进入窄相位', () => {
+      const engine = new PhysicsEngine(375, 667);
+      const ball = createBall('player', 100, 100);
+      ball.isSleeping = true;
+      engine.runSteps([ball, createWall('obstacle_0', 110, 90, 40, 40)], 1);
+
+      expect(engine.getFrameStats().testedPairs).toBe(0);
+    });
+  });
+
+  describe('斜向与多边形障碍物', () => {
+    it('弹珠撞到 45° 斜坡后沿法线方向反弹', () => {
+      const engine = new PhysicsEngine(375, 667);
+      const ball = createBall('player', 100, 100);
+      ball.vx = 120;
+      const ramp: PhysicsBody = {
+        id: 'ramp',
+        type: 'segment',
+        x: 140,
+        y: 60,
+        x2: 220,
+        y2: 140,
+        radius: 3,
+        vx: 0,
+        vy: 0,
+        mass: 0,
+        isStatic: true,
+        restitution: 1,
+        friction: 0
+      };
+
+      engine.runSteps([ball, ramp], 60);
+
+      expect(ball.vy).toBeGreaterThan(0);
+      expect(ball.x).toBeLessThan(220);
+    });
+
+    it('圆心进入旋转矩形内部时被推回外侧', () => {
+      const engine = new PhysicsEngine(375, 667);
+      const ball = createBall('player', 200, 200);
+      const box = createWall('box', 180, 180, 40, 40);
+      box.angle = Math.PI / 4;
+
+      engine.runSteps([ball, box], 1);
+
+      const dx = ball.x - 200, dy = ball.y - 200;
+      expect(Math.sqrt(dx * dx + dy * dy)).toBeGreaterThan(20);
+    });
+
+    it('凸多边形按世界坐标计算包围盒', () => {
+      const engine = new PhysicsEngine(375, 667);
+      const triangle: PhysicsBody = {
+        id: 'funnel',
+        type: 'polygon',
+        x: 100,
+        y: 100,
+        vertices: [{ x: 0, y: 0 }, { x: 40, y: 0 }, { x: 0, y: 40 }],
+        vx: 0,
+        vy: 0,
+        mass: 0,
+        isStatic: true,
+        restitution: 0.5,
+        friction: 0.5
+      };
+
+      const box = engine.getBodyAABB(triangle);
+      expect(box).toEqual({ minX: 100, minY: 100, maxX: 140, maxY: 140 });
+    });
+  });
+
+  describe('可推动障碍物', () => {
+    function createCrate(id: string, x: number, y: number, mass: number): PhysicsBody {
+      const crate = createWall(id, x, y, 30, 30);
+      crate.isStatic = false;
+      crate.mass = mass;
+      crate.friction = 0.08;
+      crate.restitution = 0.3;
+      return crate;
+    }
+
+    it('弹珠撞击木箱时按质量交换动量', () => {
+      const engine = new PhysicsEngine(375, 667);
+      const ball = createBall('player', 100, 215);
+      ball.vx = 200;
+      const light = createCrate('light', 130, 200, 1);
+
+      engine.runSteps([ball, light], 10);
+
+      expect(light.vx).toBeGreaterThan(0);
+      expect(light.x).toBeGreaterThan(130);
+      expect(ball.vx).toBeLessThan(200);
+    });
+
+    it('重木箱比轻木箱被推得更慢', () => {
+      const push = (mass: number) => {
+        const engine = new PhysicsEngine(375, 667);
+        const ball = createBall('player', 100, 215);
+        ball.vx = 200;
+        const crate = createCrate('crate', 130, 200, mass);
+        engine.runSteps([ball, crate], 10);
+        return crate.vx;
+      };
+
+      expect(push(5)).toBeLessThan(push(1));
+    });
+
+    it('木箱被推向静态墙时不会穿入', () => {
+      const engine = new PhysicsEngine(375, 667);
+      const crate = createCrate('crate', 100, 100, 2);
+      crate.vx = 300;
+      const wall = createWall('wall', 150, 80, 20, 80);
+
+      engine.runSteps([crate, wall], 30);
+
+      expect(crate.x + 30).toBeLessThanOrEqual(150.5);
+    });
+  });
+
+  describe('运动学障碍物', () => {
+    it('往返运动一个周期后回到起点，并写入速度', () => {
+      const engine = new PhysicsEngine(375, 667);
+      const slider = createWall('slider', 100, 100, 40, 20);
+      attachMotion(slider, { type: 'linear', dx: 60, dy: 0, period: 1 });
+
+      engine.runSteps([slider], 15);
+      expect(slider.x).toBeGreaterThan(100);
+      expect(slider.vx).toBeGreaterThan(0);
+
+      engine.runSteps([slider], 45);
+      expect(slider.x).toBeCloseTo(100, 6);
+    });
+
+    it('迎面运动的障碍物按相对速度反弹弹珠', () => {
+      const bounce = (moving: boolean) => {
+        const engine = new PhysicsEngine(375, 667);
+        const ball = createBall('player', 100, 200);
+        ball.vx = 120;
+        const wall = createWall('wall', 140, 150, 20, 100);
+        if (moving) attachMotion(wall, { type: 'linear', dx: -200, dy: 0, period: 2 });
+        engine.runSteps([ball, wall], 20);
+        return ball.vx;
+      };
+
+      expect(bounce(false)).toBeLessThan(0);
+      expect(bounce(true)).toBeLessThan(bounce(false));
+    });
+
+    it('旋转挡板能拍走静止的弹珠', () => {
+      const engine = new PhysicsEngine(375, 667);
+      const ball = createBall('player', 250, 170);
+      ball.isSleeping = true;
+      const paddle: PhysicsBody = {
+        ...createWall('paddle', 120, 200, 0, 0),
+        type: 'segment',
+        x2: 280,
+        y2: 200,
+        radius: 5
+      };
+      attachMotion(paddle, { type: 'rotate', angularSpeed: -Math.PI });
+
+      engine.runSteps([ball, paddle], 20);
+
+      expect(Math.abs(ball.vx) + Math.abs(ball.vy)).toBeGreaterThan(0);
+    });
+
+    it('闸门打开时弹珠直接通过', () => {
+      const pass = (offset: number) => {
+        const engine = new PhysicsEngine(375, 667);
+        const ball = createBall('player', 100, 200);
+        ball.vx = 200;
+        const gate = createWall('gate', 150, 150, 10, 100);
+        attachMotion(gate, { type: 'gate', closedDuration: 5, openDuration: 5, offset });
+        engine.runSteps([ball, gate], 30);
+        return ball.x;
+      };
+
+      expect(pass(0)).toBeLessThan(150);
+      expect(pass(5)).toBeGreaterThan(160);
+    });
+  });
+
+  describe('表面材质', () => {
+    function rollDistance(material?: string): number {
+      const engine = new PhysicsEngine(2000, 667);
+      if (material) {
+        engine.setSurfaceZones([{ id: 'zone', shape: 'rectangle', x: 0, y: 0, width: 2000, height: 667, material }]);
+      }
+      const ball = createBall('player', 50, 300);
+      ball.vx = 300;
+      engine.runSteps([ball], 180);
+      return ball.x - 50;
+    }
+
+    it('冰面区域滚得更远，沙地区域很快停下', () => {
+      const normal = rollDistance();
+      expect(rollDistance('ice')).toBeGreaterThan(normal);
+      expect(rollDistance('sand')).toBeLessThan(normal);
+    });
+
+    it('弹板墙反弹后比普通墙更快，粘板几乎不反弹', () => {
+      const bounce = (material?: string) => {
+        const engine = new PhysicsEngine(375, 667);
+        const ball = createBall('player', 100, 200);
+        ball.vx = 150;
+        const wall = createWall('wall', 140, 150, 20, 100);
+        wall.material = material;
+        engine.runSteps([ball, wall], 20);
+        return ball.vx;
+      };
+
+      const normal = bounce();
+      expect(bounce('bumper')).toBeLessThan(normal);
+      expect(bounce('sticky')).toBeLessThanOrEqual(0);
+      expect(bounce('sticky')).toBeGreaterThan(normal * 0.2);
+      expect(bounce('sand')).toBeLessThanOrEqual(0);
+    });
+
+    it('材质对查询与顺序无关，并支持自定义材质对', () => {
+      const registry = MaterialRegistry.getInstance();
+      expect(registry.combine('ice', 'sand')).toEqual(registry.combine('sand', 'ice'));
+      expect(registry.get('unknown').id).toBe('default');
+
+      registry.registerPair('ice', 'mud', { restitution: 0.5, surfaceFriction: 0.2, bounceBoost: 0, stickiness: 0 });
+      expect(registry.combine('mud', 'ice').restitution).toBe(0.5);
+    });
+  });
+
+  describe('侧旋与切向摩擦', () => {
+    it('带侧旋的击球向顺时针方向弯曲', () => {
+      const shoot = (spin: number) => {
+        const engine = new PhysicsEngine(2000, 2000);
+        const ball = createBall('player', 100, 1000);
+        ball.vx = 300;
+        ball.angularVelocity = spin;
+        engine.runSteps([ball], 60);
+        return ball;
+      };
+
+      expect(shoot(0).y).toBeCloseTo(1000, 6);
+      expect(shoot(15).y).toBeGreaterThan(1010);
+      expect(shoot(-15).y).toBeLessThan(990);
+    });
+
+    it('斜撞墙面时切向速度转化为侧旋', () => {
+      const engine = new PhysicsEngine(375, 667);
+      const ball = createBall('player', 100, 200);
+      ball.vx = 150;
+      ball.vy = 150;
+      const wall = createWall('wall', 50, 230, 200, 20);
+
+      engine.runSteps([ball, wall], 20);
+
+      expect(ball.vy).toBeLessThan(0);
+      expect(ball.vx).toBeLessThan(150);
+      expect(ball.angularVelocity).not.toBe(0);
+    });
+
+    it('弹珠擦碰时把旋转传给被撞的弹珠', () => {
+      const engine = new PhysicsEngine(375, 667);
+      const shooter = createBall('player', 100, 200);
+      shooter.vx = 200;
+      const target = createBall('enemy', 160, 220);
+
+      engine.runSteps([shooter, target], 20);
+
+      expect(target.angularVelocity).not.toBe(0);
+      expect(Math.sign(target.angularVelocity as number)).toBe(Math.sign(shooter.angularVelocity as number));
+    });
+  });
+
+  describe('地图物理参数', () => {
+    function rollOn(mapId: string): PhysicsBody {
+      const profile = getMap(mapId).physics;
+      const engine = new PhysicsEngine(2000, 2000);
+      engine.setEnvironment(getProfileGravity(profile), getProfileAirResistance(profile));
+      const ball = createBall('player', 1000, 1000);
+      ball.vx = 200;
+      engine.runSteps([ball], 60);
+      return ball;
+    }
+
+    it('俯视桌面没有重力，弹珠直线滚动', () => {
+      expect(getProfileGravity(getMap('table').physics)).toEqual({ x: 0, y: 0 });
+      expect(rollOn('table').y).toBe(1000);
+    });
+
+    it('倾斜棋盘按配置的方向施加重力', () => {
+      expect(rollOn('slope').y).toBeGreaterThan(1000);
+      const side = getProfileGravity(getMap('side_slope').physics);
+      expect(side.x).toBeGreaterThan(0);
+      expect(side.y).toBeCloseTo(0, 6);
+    });
+
+    it('未知地图回退到默认地图', () => {
+      expect(getMap('missing').id).toBe('table');
+    });
+  });
+
+  describe('休眠与静止检测', () => {
+    it('能量持续低于阈值后进入休眠并触发一次全体静止事件', () => {
+      const engine = new PhysicsEngine(375, 667);
+      const ball = createBall('player', 100, 300);
+      ball.vx = 100;
+      let restEvents = 0;
+      engine.onAllBodiesAtRest = () => restEvents++;
+
+      engine.runSteps([ball], 20);
+      expect(ball.isSleeping).toBeFalsy();
+      expect(restEvents).toBe(0);
+
+      engine.runSteps([ball], 600);
+      expect(ball.isSleeping).toBe(true);
+      expect(ball.vx).toBe(0);
+      expect(engine.isAtRest([ball])).toBe(true);
+
+      engine.runSteps([ball], 60);
+      expect(restEvents).toBe(1);
+    });
+
+    it('休眠物体不受重力影响，击球后重新唤醒', () => {
+      const engine = new PhysicsEngine(375, 667);
+      engine.setEnvironment({ x: 0, y: 60 }, 1);
+      const ball = createBall('player', 100, 300);
+      ball.isSleeping = true;
+
+      engine.runSteps([ball], 60);
+      expect(ball.y).toBe(300);
+
+      ball.vx = 50;
+      engine.runSteps([ball], 1);
+      expect(ball.isSleeping).toBe(false);
+      expect(ball.x).toBeGreaterThan(100);
+    });
+
+    it('被撞击的休眠弹珠会醒来', () => {
+      const engine = new PhysicsEngine(375, 667);
+      const shooter = createBall('player', 100, 300);
+      shooter.vx = 200;
+      const target = createBall('enemy', 160, 300);
+      target.isSleeping = true;
+
+      engine.runSteps([shooter, target], 20);
+
+      expect(target.isSleeping).toBe(false);
+      expect(target.vx).toBeGreaterThan(0);
+    });
+
+    it('倾斜棋盘上靠墙的弹珠最终休眠', () => {
+      const engine = new PhysicsEngine(375, 667);
+      engine.setEnvironment({ x: 0, y: 60 }, 1);
+      const ball = createBall('player', 100, 640);
+
+      engine.runSteps([ball], 300);
+
+      expect(ball.isSleeping).toBe(true);
+    });
+  });
+
+  describe('碰撞事件', () => {
+    it('撞墙后依次发出 begin 和 end，并带有法线、冲量和材质', () => {
+      const engine = new PhysicsEngine(375, 667);
+      const ball = createBall('player', 100, 200);
+      ball.vx = 150;
+      const wall = createWall('wall', 140, 150, 20, 100);
+      wall.material = 'bumper';
+      const events: ContactEvent[] = [];
+      engine.contacts.on('all', event => events.push(event));
+
+      engine.runSteps([ball, wall], 30);
+
+      const phases = events.filter(event => event.b === wall).map(event => event.phase);
+      expect(phases[0]).toBe('begin');
+      expect(phases[phases.length - 1]).toBe('end');
+
+      const begin = events[0];
+      expect(begin.a).toBe(ball);
+      expect(begin.normal.x).toBeCloseTo(-1, 6);
+      expect(begin.point.x).toBeCloseTo(140, 0);
+      expect(begin.impulse).toBeGreaterThan(0);
+      expect(begin.material).toBe('bumper');
+    });
+
+    it('世界边界的接触没有对方物体', () => {
+      const engine = new PhysicsEngine(375, 667);
+      const ball = createBall('player', 340, 300);
+      ball.vx = 200;
+      const begins: ContactEvent[] = [];
+      engine.contacts.on('begin', event => begins.push(event));
+
+      engine.runSteps([ball], 20);
+
+      expect(begins).toHaveLength(1);
+      expect(begins[0].surface).toBe('wall');
+      expect(begins[0].b).toBeNull();
+      expect(begins[0].normal).toEqual({ x: -1, y: 0 });
+    });
+
+    it('持续挤压时发出 persist，取消订阅后不再接收', () => {
+      const engine = new PhysicsEngine(375, 667);
+      engine.setEnvironment({ x: 0, y: 600 }, 1);
+      const ball = createBall('player', 100, 652);
+      const phases: string[] = [];
+      const unsubscribe = engine.contacts.on('all', event => phases.push(event.phase));
+
+      engine.runSteps([ball], 30);
+      expect(phases).toContain('persist');
+
+      unsubscribe();
+      const count = phases.length;
+      engine.runSteps([ball], 10);
+      expect(phases).toHaveLength(count);
+    });
+  });
+
+  describe('轨迹预览', () => {
+    const fullLimits = { maxSteps: 300, maxBounces: 3, showTarget: true, showRestPoint: true };
+
+    it('预测停止点与真实模拟一致，且不修改原引擎和物体', () => {
+      const engine = new PhysicsEngine(375, 667);
+      engine.setEnvironment({ x: 0, y: 0 }, 1);
+      const ball = createBall('player', 100, 300);
+      ball.friction = 0.03;
+      const wall = createWall('wall', 250, 200, 20, 200);
+      const shot = { vx: 400, vy: 0, spin: 0, power: 0.5 };
+
+      const preview = predictShot(engine, [ball, wall], 'player', 'enemy', shot, fullLimits);
+      expect(ball.vx).toBe(0);
+      expect(ball.x).toBe(100);
+      expect(engine.getStepCount()).toBe(0);
+      expect(preview.bounces).toHaveLength(1);
+      expect(preview.restPoint).not.toBeNull();
+
+      ball.vx = 400;
+      engine.runSteps([ball, wall], 300);
+      expect(preview.restPoint!.x).toBeCloseTo(ball.x, 6);
+      expect(preview.restPoint!.y).toBeCloseTo(ball.y, 6);
+    });
+
+    it('记录首次碰到对手的位置', () => {
+      const engine = new PhysicsEngine(375, 667);
+      engine.setEnvironment({ x: 0, y: 0 }, 1);
+      const ball = createBall('player', 100, 300);
+      const enemy = createBall('enemy', 200, 300);
+      const shot = { vx: 300, vy: 0, spin: 0, power: 0.5 };
+
+      const preview = predictShot(engine, [ball, enemy], 'player', 'enemy', shot, fullLimits);
+      expect(preview.firstTargetContact).not.toBeNull();
+      expect(Math.abs(preview.firstTargetContact!.x - 170)).toBeLessThan(5);
+      expect(enemy.x).toBe(200);
+    });
+
+    it('超过反弹上限后截断路径；关闭瞄准辅助时只显示短路径', () => {
+      const engine = new PhysicsEngine(375, 667);
+      engine.setEnvironment({ x: 0, y: 0 }, 1);
+      const ball = createBall('player', 100, 300);
+      const shot = { vx: 800, vy: 0, spin: 0, power: 1 };
+
+      const limited = predictShot(engine, [ball], 'player', 'enemy', shot, { ...fullLimits, maxBounces: 0 });
+      const full = predictShot(engine, [ball], 'player', 'enemy', shot, fullLimits);
+      expect(limited.bounces).toHaveLength(0);
+      expect(full.bounces.length).toBeGreaterThan(0);
+      expect(limited.points.length).toBeLessThan(full.points.length);
+
+      const off = getPreviewLimits('简单', false);
+      expect(off.showRestPoint).toBe(false);
+      expect(getPreviewLimits('困难', true).maxSteps).toBeLessThan(getPreviewLimits('简单', true).maxSteps);
+    });
+  });
+
+  describe('边界模式', () => {
+    it('出界淘汰：圆心越过边缘后停止并退出碰撞', () => {
+      const engine = new PhysicsEngine(375, 667);
+      engine.setBoundaryMode('lethal');
+      const ball = createBall('player', 300, 300);
+      ball.vx = 600;
+      const out: PhysicsBody[] = [];
+      engine.onBodyOutOfBounds = body => out.push(body);
+
+      engine.runSteps([ball], 30);
+
+      expect(out).toEqual([ball]);
+      expect(ball.isOutOfBounds).toBe(true);
+      expect(ball.isDisabled).toBe(true);
+      expect(ball.vx).toBe(0);
+      expect(engine.isOutOfBounds(ball)).toBe(true);
+    });
+
+    it('绕回：从左边滚出的弹珠从右边出现，不产生墙面接触', () => {
+      const engine = new PhysicsEngine(375, 667);
+      engine.setBoundaryMode('wrap');
+      const ball = createBall('player', 20, 300);
+      ball.vx = -300;
+      const contacts: ContactEvent[] = [];
+      engine.contacts.on('all', event => contacts.push(event));
+
+      engine.runSteps([ball], 10);
+
+      expect(ball.x).toBeGreaterThan(300);
+      expect(ball.vx).toBeLessThan(0);
+      expect(contacts).toHaveLength(0);
+      expect(ball.isOutOfBounds).toBeFalsy();
+    });
+
+    it('开放边缘：停在缓冲带内或越过缓冲带都算出界', () => {
+      const engine = new PhysicsEngine(375, 667);
+      engine.setBoundaryMode('open', 60);
+      const slow = createBall('slow', 360, 200);
+      slow.vx = 80;
+      const fast = createBall('fast', 360, 400);
+      fast.vx = 1500;
+
+      engine.runSteps([slow, fast], 120);
+
+      expect(slow.x).toBeGreaterThan(375);
+      expect(slow.x).toBeLessThan(375 + 60);
+      expect(slow.isOutOfBounds).toBe(true);
+      expect(fast.isOutOfBounds).toBe(true);
+    });
+  });
+
+  describe('圆形场地', () => {
+    const ring = { x: 187.5, y: 333.5, radius: 150 };
+
+    it('出圈淘汰：圆心离开圆圈即出界，圈内的弹珠不受影响', () => {
+      const engine = new PhysicsEngine(375, 667);
+      engine.setBoundaryMode('lethal');
+      engine.setBoundaryRing(ring);
+      const striker = createBall('player', 150, 333.5);
+      striker.vx = 500;
+      const target = createBall('enemy', 220, 333.5);
+
+      engine.runSteps([striker, target], 120);
+
+      expect(target.isOutOfBounds).toBe(true);
+      expect(striker.isOutOfBounds).toBeFalsy();
+      expect(engine.isOutOfBounds(target)).toBe(true);
+      expect(engine.isOutOfBounds(striker)).toBe(false);
+    });
+
+    it('反弹模式下沿径向弹回圈内，并复制到试算引擎', () => {
+      const engine = new PhysicsEngine(375, 667);
+      engine.setBoundaryRing(ring);
+      const ball = createBall('player', 187.5, 333.5);
+      ball.vy = -400;
+      const contacts: ContactEvent[] = [];
+      engine.contacts.on('begin', event => contacts.push(event));
+
+      engine.runSteps([ball], 40);
+
+      expect(contacts).toHaveLength(1);
+      expect(contacts[0].normal.y).toBeCloseTo(1, 6);
+      expect(ball.vy).toBeGreaterThan(0);
+      expect(Math.abs(ball.y - ring.y)).toBeLessThanOrEqual(ring.radius - 15 + 1e-9);
+      expect(engine.clone().getBoundaryRing()).toEqual(ring);
+    });
+  });
+
+  describe('洞口', () => {
+    function createHole(x: number, y: number): PhysicsBody {
+      return {
+        id: 'hole',
+        type: 'hole',
+        x,
+        y,
+        vx: 0,
+        vy: 0,
+        mass: 0,
+        radius: 24,
+        isStatic: true,
+        restitution: 0,
+        friction: 0,
+        captureSpeed: 180,
+        rimPull: 1200
+      };
+    }
+
+    it('慢速滚入的弹珠被吃进并停在洞心', () => {
+      const engine = new PhysicsEngine(375, 667);
+      const hole = createHole(200, 300);
+      const ball = createBall('player', 150, 300);
+      ball.friction = 0;
+      ball.vx = 120;
+      const captured: string[] = [];
+      engine.onBodyCaptured = (body, by) => captured.push(`${body.id}:${by.id}`);
+
+      engine.runSteps([ball, hole], 60);
+
+      expect(captured).toEqual(['player:hole']);
+      expect(ball.capturedBy).toBe('hole');
+      expect(ball.x).toBe(200);
+      expect(ball.y).toBe(300);
+      expect(ball.isDisabled).toBe(true);
+    });
+
+    it('快速掠过的弹珠不会进洞，但路径被洞口拉偏', () => {
+      const engine = new PhysicsEngine(375, 667);
+      const hole = createHole(200, 300);
+      const ball = createBall('player', 100, 290);
+      ball.friction = 0;
+      ball.vx = 600;
+
+      engine.runSteps([ball, hole], 30);
+
+      expect(ball.capturedBy).toBeUndefined();
+      expect(ball.x).toBeGreaterThan(250);
+      expect(ball.vy).toBeGreaterThan(0);
+    });
+  });
+
+  describe('力场', () => {
+    it('风带只在区域内加速弹珠', () => {
+      const engine = new PhysicsEngine(375, 667);
+      engine.setForceFields([{ type: 'wind', id: 'wind', x: 0, y: 100, width: 375, height: 100, ax: 300, ay: 0 }]);
+      const inside = createBall('inside', 100, 150);
+      const outside = createBall('outside', 100, 400);
+
+      engine.runSteps([inside, outside], 10);
+
+      expect(inside.vx).toBeGreaterThan(0);
+      expect(outside.vx).toBe(0);
+    });
+
+    it('吸引点指向中心、排斥点背离中心，并随距离衰减', () => {
+      const magnet = { type: 'point' as const, id: 'magnet', x: 100, y: 100, radius: 100, strength: 200 };
+      const near = getFieldAcceleration(magnet, 125, 100);
+      const far = getFieldAcceleration(magnet, 175, 100);
+      expect(near.x).toBeCloseTo(-150, 6);
+      expect(far.x).toBeCloseTo(-50, 6);
+      expect(getFieldAcceleration(magnet, 250, 100)).toEqual({ x: 0, y: 0 });
+      expect(getFieldAcceleration({ ...magnet, strength: -200 }, 125, 100).x).toBeCloseTo(150, 6);
+    });
+
+    it('旋涡产生顺时针的切向加速度', () => {
+      const vortex = { type: 'vortex' as const, id: 'vortex', x: 100, y: 100, radius: 100, strength: 200 };
+      // 中心右侧的点顺时针转向屏幕下方
+      const a = getFieldAcceleration(vortex, 150, 100);
+      expect(a.x).toBeCloseTo(0, 6);
+      expect(a.y).toBeCloseTo(100, 6);
+    });
+
+    it('按屏幕比例换算力场，并纳入轨迹预览', () => {
+      const wind = layoutField({ type: 'wind', id: 'wind', x: 0, y: 0.25, width: 1, height: 0.15, ax: 0, ay: 200 }, 400, 600);
+      expect(wind).toEqual({ type: 'wind', id: 'wind', x: 0, y: 150, width: 400, height: 90, ax: 0, ay: 200 });
+
+      const engine = new PhysicsEngine(400, 600);
+      engine.setForceFields([wind]);
+      const ball = createBall('player', 50, 200);
+      ball.friction = 0.08;
+      const shot = { vx: 300, vy: 0, spin: 0, power: 0.5 };
+      const limits = { maxSteps: 300, maxBounces: 3, showTarget: true, showRestPoint: true };
+
+      const preview = predictShot(engine, [ball], 'player', 'enemy', shot, limits);
+      ball.vx = 300;
+      engine.runSteps([ball], 300);
+
+      expect(preview.restPoint!.y).toBeGreaterThan(200);
+      expect(preview.restPoint!.x).toBeCloseTo(ball.x, 6);
+      expect(preview.restPoint!.y).toBeCloseTo(ball.y, 6);
+    });
+  });
+});
@@ -0,0 +1,165 @@
+// test/rules.test.ts
+import DataBus from '../src/databus';
+import { getMap } from '../src/maps';
+import { GameResult } from '../src/GameStates';
+import { RoundContext, Side, resolveRound, getGameResult, applyRoundOutcome } from '../src/rules';
+import { measureSpan } from '../src/span';
+import { getFinishLine, markFinishers, rankRacers, getRaceBetResult } from '../src/race';
+
+describe('回合规则', () => {
+  function context(mapId: string, shooter: Side, gap: number): RoundContext {
+    return {
+      map: getMap(mapId),
+      balls: [
+        DataBus.createBall('player', 100, 200, 'player'),
+        DataBus.createBall('enemy', 100 + gap, 200, 'enemy')
+      ],
+      obstacles: [],
+      handSpan: 120,
+      pocketScores: { player: 0, enemy: 0 },
+      holeTargetScore: 5,
+      shooter
+    };
+  }
+
+  it('一扎捕获由击球方获胜', () => {
+    expect(resolveRound(context('table', 'player', 80)).result).toBe('player_win');
+
+    const outcome = resolveRound(context('table', 'enemy', 80));
+    expect(outcome.result).toBe('enemy_win');
+    expect(outcome.reason).toBe('capture');
+    expect(getGameResult(outcome.result)).toBe(GameResult.LOSE);
+  });
+
+  it('超出一扎继续对局', () => {
+    const outcome = resolveRound(context('table', 'enemy', 200));
+    expect(outcome.result).toBe('continue');
+    expect(getGameResult(outcome.result)).toBeNull();
+  });
+
+  it('双方同时出圈为平局', () => {
+    const round = context('ring', 'player', 200);
+    round.balls.forEach(ball => { ball.isOutOfBounds = true; });
+
+    const outcome = resolveRound(round);
+    expect(outcome.result).toBe('draw');
+    expect(getGameResult(outcome.result)).toBe(GameResult.DRAW);
+  });
+});
+
+describe('多颗弹珠', () => {
+  function teams(mapId: string): RoundContext {
+    return {
+      map: getMap(mapId),
+      balls: [
+        DataBus.createBall('player', 100, 200, 'player'),
+        DataBus.createBall('player_2', 100, 400, 'player'),
+        DataBus.createBall('enemy', 300, 200, 'enemy'),
+        DataBus.createBall('enemy_2', 190, 400, 'enemy')
+      ],
+      obstacles: [],
+      handSpan: 120,
+      pocketScores: { player: 0, enemy: 0 },
+      holeTargetScore: 5,
+      shooter: 'player',
+      shotBallId: 'player_2'
+    };
+  }
+
+  it('弹出的弹珠捕获一扎内的对方弹珠并移出本局，对方还有弹珠时继续', () => {
+    const round = teams('table');
+    const outcome = resolveRound(round);
+    expect(outcome.result).toBe('continue');
+    expect(outcome.reason).toBe('capture');
+    expect(outcome.removed).toEqual(['enemy_2']);
+
+    applyRoundOutcome(outcome, round.balls, round.pocketScores, { x: 0, y: 0 });
+    expect(round.balls.map(ball => ball.id)).toEqual(['player', 'player_2', 'enemy']);
+
+    // 最后一颗被捕获即获胜
+    round.balls[2].x = 180;
+    round.shotBallId = 'player';
+    expect(resolveRound(round).result).toBe('player_win');
+  });
+
+  it('出界淘汰只移出出界的弹珠，一方全部出界才判负', () => {
+    const round = teams('cliff');
+    round.balls[3].x = 300;
+    round.balls[1].isOutOfBounds = true;
+
+    const outcome = resolveRound(round);
+    expect(outcome.result).toBe('continue');
+    expect(outcome.removed).toEqual(['player_2']);
+
+    round.balls[0].isOutOfBounds = true;
+    expect(resolveRound(round).result).toBe('enemy_win');
+  });
+});
+
+describe('一扎测量', () => {
+  const shooter = DataBus.createBall('player', 100, 200, 'player');
+  const target = DataBus.createBall('enemy', 180, 200, 'enemy');
+
+  it('两端按在两颗弹珠上且不超过一扎才成功，方向不限', () => {
+    expect(measureSpan({ x: 102, y: 198 }, { x: 176, y: 204 }, shooter, target, 120).success).toBe(true);
+    expect(measureSpan({ x: 180, y: 200 }, { x: 100, y: 200 }, shooter, target, 120).success).toBe(true);
+    expect(measureSpan({ x: 100, y: 200 }, { x: 180, y: 200 }, shooter, target, 60).success).toBe(false);
+  });
+
+  it('没有按住对方弹珠时失败', () => {
+    const measurement = measureSpan({ x: 100, y: 200 }, { x: 140, y: 260 }, shooter, target, 120);
+    expect(measurement.reached).toBe(false);
+    expect(measurement.success).toBe(false);
+  });
+});
+
+describe('竞速', () => {
+  const line = getFinishLine(375, 2000);
+
+  function racers() {
+    return [
+      DataBus.createBall('player', 100, 1000, 'player'),
+      DataBus.createBall('enemy', 200, 1000, 'enemy'),
+      DataBus.createBall('enemy_2', 300, 1000, 'enemy')
+    ];
+  }
+
+  it('越过终点线时回推到达时间并退出碰撞', () => {
+    const balls = racers();
+    balls[0].y = line.y + 10;
+    balls[0].vy = 100;
+
+    expect(markFinishers(balls, line, 5)).toEqual([balls[0]]);
+    expect(balls[0].finishTime).toBeCloseTo(4.9);
+    expect(balls[0].isDisabled).toBe(true);
+    expect(markFinishers(balls, line, 6)).toHaveLength(0);
+  });
+
+  it('全部到达后按时间排名，第一名决定胜负和下注', () => {
+    const balls = racers();
+    const round: RoundContext = {
+      map: getMap('race'),
+      balls,
+      obstacles: [],
+      handSpan: 120,
+      pocketScores: { player: 0, enemy: 0 },
+      holeTargetScore: 5,
+      shooter: 'player'
+    };
+    balls[0].y = line.y;
+    markFinishers(balls, line, 3);
+    expect(resolveRound(round).result).toBe('continue');
+
+    balls[1].y = line.y;
+    balls[2].y = line.y;
+    markFinishers(balls, line, 2);
+    const outcome = resolveRound(round);
+    expect(outcome.result).toBe('enemy_win');
+    expect(outcome.reason).toBe('race');
+
+    const ranking = rankRacers(balls);
+    expect(ranking[ranking.length - 1]).toBe(balls[0]);
+    expect(getRaceBetResult(ranking, ranking[0])).toBe(GameResult.WIN);
+    expect(getRaceBetResult(ranking, balls[0])).toBe(GameResult.LOSE);
+  });
+});
@@ -0,0 +1,120 @@
+// test/shotClock.test.ts
+import DataBus from '../src/databus';
+import GameStateManager from '../src/GameStateManager';
+import GameEventHandler from '../src/GameEventHandler';
+import { GameState, Turn, Controller } from '../src/GameStates';
+import { getTimeoutPolicy, getWarningSeconds, createWeakShot } from '../src/shotClock';
+
+describe('击球计时', () => {
+  it('跨过最后几秒的整秒时提醒，相邻两帧不重复', () => {
+    expect(getWarningSeconds(3, 2.9, 3)).toEqual([3]);
+    expect(getWarningSeconds(3.1, 3, 3)).toEqual([]);
+    expect(getWarningSeconds(2.95, 2.9, 3)).toEqual([]);
+    expect(getWarningSeconds(2.05, 0.95, 3)).toEqual([2, 1]);
+    expect(getWarningSeconds(4.5, 3.5, 3)).toEqual([]);
+    expect(getWarningSeconds(4.2, 2.5, 3)).toEqual([3]);
+    expect(getWarningSeconds(0.5, 0, 3)).toEqual([]);
+  });
+
+  it('超时处理按设置的选项名取策略，未知选项自动让过', () => {
+    expect(getTimeoutPolicy('随机弱击')).toBe('weak_shot');
+    expect(getTimeoutPolicy('扣分')).toBe('penalty');
+    expect(getTimeoutPolicy('自动让过')).toBe('pass');
+    expect(getTimeoutPolicy('不存在')).toBe('pass');
+  });
+
+  it('超时弱击方向随机、速度固定', () => {
+    const shot = createWeakShot(150, () => 0.25);
+    expect(shot.x).toBeCloseTo(0);
+    expect(shot.y).toBeCloseTo(150);
+    const random = createWeakShot(150);
+    expect(Math.hypot(random.x, random.y)).toBeCloseTo(150);
+  });
+
+  describe('推进击球计时', () => {
+    const gameStateManager = GameStateManager.getInstance();
+    let settings: { [id: string]: any };
+    let handler: GameEventHandler;
+
+    beforeEach(() => {
+      settings = { sound: false, vibration: false, timeout_policy: '自动让过' };
+      const menu = { getSetting: (id: string) => settings[id] };
+      const main = { setState: jest.fn() };
+      handler = new GameEventHandler({} as any, menu as any, main as any);
+
+      DataBus.endHotSeat();
+      gameStateManager.reset();
+      gameStateManager.setBalls([
+        DataBus.createBall('player', 100, 200, 'player'),
+        DataBus.createBall('enemy', 300, 200, 'enemy')
+      ]);
+      gameStateManager.setGameState(GameState.PLAYING);
+      handler.resetTurn(Turn.PLAYER);
+    });
+
+    it('玩家超时自动让过，换边后重新计时', () => {
+      handler.updateShotClock(DataBus.config.TURN_TIME - 0.1, true);
+      expect(gameStateManager.getTurn()).toBe(Turn.PLAYER);
+
+      handler.updateShotClock(0.2, true);
+      expect(gameStateManager.getTurn()).toBe(Turn.AI);
+      expect(gameStateManager.getTurnTimer()).toBe(DataBus.config.TURN_TIME);
+    });
+
+    it('单人对局超时扣分后让过', () => {
+      settings.timeout_policy = '扣分';
+      DataBus.score = 20;
+      handler.updateShotClock(DataBus.config.TURN_TIME, true);
+
+      expect(DataBus.score).toBe(20 - DataBus.config.TIMEOUT_PENALTY);
+      expect(gameStateManager.getTurn()).toBe(Turn.AI);
+    });
+
+    it('双人同屏超时不扣手机主人的积分，按让过处理', () => {
+      settings.timeout_policy = '扣分';
+      DataBus.score = 20;
+      DataBus.startHotSeat([
+        { name: '小明', color: '#3498db', marbleId: 'basic_red' },
+        { name: '小红', color: '#e74c3c', marbleId: 'basic_red' }
+      ]);
+      gameStateManager.setControllers(Controller.HUMAN, Controller.HUMAN);
+      handler.updateShotClock(DataBus.config.TURN_TIME, true);
+
+      expect(DataBus.score).toBe(20);
+      expect(gameStateManager.getTurn()).toBe(Turn.AI);
+      expect(gameStateManager.getTurnTimer()).toBe(DataBus.config.TURN_TIME);
+      expect(handler.getHandoverSeat()!.name).toBe('小红');
+    });
+
+    it('双人同屏超时让过后先显示换人提示，接手的一方不计时', () => {
+      const seats = [
+        { name: '小明', color: '#3498db', marbleId: 'basic_red' },
+        { name: '小红', color: '#e74c3c', marbleId: 'basic_red' }
+      ];
+      DataBus.startHotSeat(seats);
+      gameStateManager.setControllers(Controller.HUMAN, Controller.HUMAN);
+      handler.updateShotClock(DataBus.config.TURN_TIME, true);
+
+      expect(gameStateManager.getTurn()).toBe(Turn.AI);
+      expect(handler.getHandoverSeat()).toEqual(seats[1]);
+
+      handler.updateShotClock(DataBus.config.TURN_TIME, true);
+      expect(gameStateManager.getTurn()).toBe(Turn.AI);
+      expect(gameStateManager.getTurnTimer()).toBe(DataBus.config.TURN_TIME);
+    });
+
+    it('AI 想好后才出手，场上未静止时不走表', () => {
+      const executeAITurn = jest.spyOn(handler, 'executeAITurn').mockImplementation(() => {});
+      handler.resetTurn(Turn.AI);
+
+      handler.updateShotClock(DataBus.config.AI_THINK_TIME, false);
+      expect(executeAITurn).not.toHaveBeenCalled();
+
+      handler.updateShotClock(DataBus.config.AI_THINK_TIME / 2, true);
+      expect(executeAITurn).not.toHaveBeenCalled();
+
+      handler.updateShotClock(DataBus.config.AI_THINK_TIME / 2, true);
+      expect(executeAITurn).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+// test/simulation.test.ts
+import { createMatch, simulateShot, MatchState } from '../src/simulation';
+
+describe('无界面模拟', () => {
+  const options = { width: 375, height: 667, seed: 42 };
+
+  describe('createMatch', () => {
+    it('相同种子生成相同的布局和先后手', () => {
+      const a = createMatch({ ...options, mapId: 'table' });
+      const b = createMatch({ ...options, mapId: 'table' });
+
+      expect(a.turn).toBe(b.turn);
+      expect(a.obstacles.map(o => [o.id, o.x, o.y])).toEqual(b.obstacles.map(o => [o.id, o.x, o.y]));
+      expect(a.zones).toEqual(b.zones);
+      expect(a.balls.map(ball => ball.id)).toEqual(['player', 'enemy']);
+    });
+
+    it('每方多颗弹珠时双方各排一列', () => {
+      const match = createMatch({ ...options, mapId: 'table', teamSize: 3 });
+      expect(match.balls.filter(ball => ball.isPlayer)).toHaveLength(3);
+      expect(match.balls.filter(ball => ball.isEnemy)).toHaveLength(3);
+      expect(new Set(match.balls.map(ball => ball.id)).size).toBe(6);
+    });
+
+    it('出圈地图不放障碍物，打洞地图生成洞口', () => {
+      expect(createMatch({ ...options, mapId: 'ring' }).obstacles).toHaveLength(0);
+      const holes = createMatch({ ...options, mapId: 'holes' }).obstacles.filter(o => o.type === 'hole');
+      expect(holes.length).toBeGreaterThan(0);
+    });
+
+    it('竞速地图加长赛道，参赛弹珠全部排在起跑线上', () => {
+      const race = createMatch({ ...options, mapId: 'race' });
+
+      expect(race.height).toBe(667 * 4);
+      expect(race.balls).toHaveLength(4);
+      expect(race.balls.filter(ball => ball.isPlayer)).toHaveLength(1);
+      expect(new Set(race.balls.map(ball => ball.y)).size).toBe(1);
+    });
+  });
+
+  describe('simulateShot', () => {
+    function ringMatch(): MatchState {
+      return { ...createMatch({ ...options, mapId: 'ring' }), turn: 'player' };
+    }
+
+    it('不修改传入的状态，并在静止后结算', () => {
+      const state = ringMatch();
+      const player = state.balls[0];
+      const before = { x: player.x, y: player.y };
+
+      const outcome = simulateShot(state, { ballId: 'player', vx: 900, vy: 0 });
+
+      expect(player.x).toBe(before.x);
+      expect(player.vx).toBe(0);
+      expect(outcome.settled).toBe(true);
+      expect(outcome.hits[0]).toBe('enemy');
+      expect(outcome.round.result).toBe('player_win');
+      expect(outcome.round.reason).toBe('ring');
+      expect(outcome.state.result).toBe('player_win');
+    });
+
+    it('同一状态和击球得到逐位一致的结果，未分胜负时换对方击球', () => {
+      const state = ringMatch();
+      const shot = { ballId: 'player', vx: 0, vy: -40, spin: 5 };
+
+      const a = simulateShot(state, shot);
+      const b = simulateShot(state, shot);
+
+      expect(a.state.balls.map(ball => [ball.x, ball.y])).toEqual(b.state.balls.map(ball => [ball.x, ball.y]));
+      expect(a.steps).toBe(b.steps);
+      expect(a.round.result).toBe('continue');
+      expect(a.state.turn).toBe('enemy');
+    });
+
+    it('击球的弹珠不属于当前回合的一方时报错', () => {
+      expect(() => simulateShot(ringMatch(), { ballId: 'enemy', vx: -900, vy: 0 })).toThrow('不是 enemy 的回合');
+      expect(() => simulateShot(ringMatch(), { ballId: 'nobody', vx: 0, vy: 0 })).toThrow('未知的弹珠');
+    });
+
+    it('被撞出界的对方弹珠放回这一击之前的位置', () => {
+      const state: MatchState = {
+        ...createMatch({ ...options, mapId: 'meadow', handSpan: 20 }),
+        turn: 'player', obstacles: [], zones: [], fields: []
+      };
+      const [player, enemy] = state.balls;
+      player.x = 200;
+      player.y = 300;
+      enemy.x = 340;
+      enemy.y = 300;
+
+      const outcome = simulateShot(state, { ballId: 'player', vx: 500, vy: 0 });
+      const after = outcome.state.balls.find(ball => ball.id === 'enemy')!;
+
+      expect(outcome.round.respawn).toContain('enemy');
+      expect(outcome.round.penaltyScore).toBe(0);
+      expect([after.x, after.y]).toEqual([340, 300]);
+    });
+
+    it('可以连续击球跑完一局', () => {
+      let state = ringMatch();
+      for (let turn = 0; turn < 10 && state.result === 'continue'; turn++) {
+        const shooter = state.balls.find(ball => ball.id === state.turn)!;
+        const target = state.balls.find(ball => ball.id !== state.turn)!;
+        const dx = target.x - shooter.x;
+        const dy = target.y - shooter.y;
+        const length = Math.sqrt(dx * dx + dy * dy);
+        state = simulateShot(state, { ballId: shooter.id, vx: dx / length * 900, vy: dy / length * 900 }).state;
+      }
+
+      expect(state.result).not.toBe('continue');
+    });
+  });
+});